@@ -0,0 +1,259 @@
+import { AerospaceUnavailableError } from "./errors";
+import {
+	aerospaceClient,
+	execAerospaceCommand,
+	runAerospaceQuery,
+	runAerospaceQueryJson,
+} from "./exec";
+import { debugLog } from "./log";
+import type { ContainerLayout, WorkspaceLayout } from "./types";
+
+export async function flattenWorkspace(workspace: string) {
+	await execAerospaceCommand(
+		["flatten-workspace-tree", "--workspace", workspace],
+		1000, // 1 second timeout
+		true, // Optional - continue even if it times out
+	);
+}
+
+export async function switchToWorkspace(workspace: string) {
+	return await execAerospaceCommand(["workspace", workspace], 1000);
+}
+
+export async function moveWindow(windowId: string, workspace: string) {
+	return await execAerospaceCommand(
+		["move-node-to-workspace", "--window-id", windowId, workspace],
+		1000,
+	);
+}
+
+export async function getWindowsInWorkspace(workspace: string): Promise<
+	{
+		"app-name": string;
+		"window-id": string;
+		"window-title": string;
+		"app-bundle-id": string;
+		// "floating", or the layout of the window's tiling container
+		"window-layout": string;
+	}[]
+> {
+	return await runAerospaceQueryJson([
+		"list-windows",
+		"--workspace",
+		workspace,
+		"--json",
+		"--format",
+		"%{window-id} %{app-name} %{window-title} %{app-bundle-id} %{window-layout}",
+	]);
+}
+
+export async function joinItemWithPreviousWindow(windowId: string) {
+	return await execAerospaceCommand(
+		["join-with", "--window-id", windowId, "left"],
+		1000,
+		true, // Optional - can fail if no window in that direction
+	);
+}
+
+export async function focusWindow(windowId: string) {
+	await execAerospaceCommand(["focus", "--window-id", windowId], 1000);
+}
+
+export async function closeWindow(windowId: string) {
+	return await execAerospaceCommand(["close", "--window-id", windowId], 1000);
+}
+
+export async function floatWindow(windowId: string) {
+	return await execAerospaceCommand(
+		["layout", "floating", "--window-id", windowId],
+		1000,
+	);
+}
+
+export async function tileWindow(windowId: string) {
+	return await execAerospaceCommand(
+		["layout", "tiling", "--window-id", windowId],
+		1000,
+	);
+}
+
+export async function minimizeWindow(windowId: string) {
+	return await execAerospaceCommand(
+		["macos-native-minimize", "--window-id", windowId],
+		1000,
+	);
+}
+
+export type AppWindow = {
+	"window-id": string;
+	"app-name": string;
+	"window-title": string;
+};
+
+export async function getAppWindows(bundleId: string): Promise<AppWindow[]> {
+	return await runAerospaceQueryJson<AppWindow[]>([
+		"list-windows",
+		"--monitor",
+		"all",
+		"--app-bundle-id",
+		bundleId,
+		"--json",
+	]);
+}
+
+export async function setWorkspaceLayout(
+	workspace: string,
+	layout: WorkspaceLayout,
+	windowInWorkspace?: string | null,
+) {
+	const windowId =
+		windowInWorkspace ??
+		(await getWindowsInWorkspace(workspace))[0]?.["window-id"];
+	if (windowId) {
+		await execAerospaceCommand(
+			["layout", layout, "--window-id", windowId],
+			2000, // 2 second timeout
+			true, // Optional - continue even if it times out
+		);
+	} else {
+		debugLog(`[WARN] No windows in workspace ${workspace} to set layout`);
+	}
+}
+
+/**
+ * Set the layout of the container holding a window, keeping its orientation
+ */
+export async function setContainerLayout(
+	windowId: string,
+	layout: ContainerLayout,
+) {
+	await execAerospaceCommand(
+		["layout", layout, "--window-id", windowId],
+		2000,
+		true,
+	);
+}
+
+export type AerospaceMonitor = {
+	"monitor-id": number;
+	"monitor-name": string;
+};
+
+export async function getMonitors(): Promise<AerospaceMonitor[]> {
+	return await runAerospaceQueryJson<AerospaceMonitor[]>([
+		"list-monitors",
+		"--json",
+		"--format",
+		"%{monitor-id} %{monitor-name}",
+	]);
+}
+
+export async function moveWorkspaceToMonitor(
+	workspace: string,
+	monitor: string,
+) {
+	return await execAerospaceCommand(
+		["move-workspace-to-monitor", "--workspace", workspace, monitor],
+		1000,
+	);
+}
+
+export type Gaps = {
+	inner: { horizontal: number; vertical: number };
+	outer: { left: number; right: number; top: number; bottom: number };
+};
+
+// A gap is a number, or per-monitor values followed by the default
+function toGap(value: unknown): number {
+	if (Array.isArray(value)) {
+		return toGap(value.at(-1));
+	}
+	return typeof value === "number" ? value : 0;
+}
+
+/**
+ * Gaps from aerospace's config. Per-monitor values are not resolved: their
+ * default is used.
+ */
+export async function getGaps(): Promise<Gaps> {
+	const gaps = await runAerospaceQueryJson<{
+		inner?: Record<string, unknown>;
+		outer?: Record<string, unknown>;
+	}>(["config", "--get", "gaps", "--json"]);
+	return {
+		inner: {
+			horizontal: toGap(gaps.inner?.horizontal),
+			vertical: toGap(gaps.inner?.vertical),
+		},
+		outer: {
+			left: toGap(gaps.outer?.left),
+			right: toGap(gaps.outer?.right),
+			top: toGap(gaps.outer?.top),
+			bottom: toGap(gaps.outer?.bottom),
+		},
+	};
+}
+
+export async function getFocusedWorkspace(): Promise<string> {
+	return (await runAerospaceQuery(["list-workspaces", "--focused"])).trim();
+}
+
+export async function getVisibleWorkspaces(): Promise<string[]> {
+	const visible = await runAerospaceQuery([
+		"list-workspaces",
+		"--monitor",
+		"all",
+		"--visible",
+	]);
+	return visible
+		.split("\n")
+		.map((w) => w.trim())
+		.filter(Boolean);
+}
+
+export async function isWorkspaceVisible(workspace: string): Promise<boolean> {
+	return (await getVisibleWorkspaces()).includes(workspace);
+}
+
+export async function getAllWindows(): Promise<
+	{
+		"window-id": string;
+		"app-name": string;
+		"app-bundle-id": string;
+		workspace: string;
+		"window-layout": string;
+	}[]
+> {
+	return await runAerospaceQueryJson([
+		"list-windows",
+		"--all",
+		"--json",
+		"--format",
+		"%{window-id} %{app-name} %{app-bundle-id} %{workspace} %{window-layout}",
+	]);
+}
+
+/**
+ * Fail early, with a dedicated exit code, when the aerospace CLI is missing or
+ * the server doesn't answer.
+ */
+export async function checkAerospaceAvailable() {
+	let detail: string;
+	try {
+		const result = await aerospaceClient.run(["list-workspaces", "--focused"], {
+			readOnly: true,
+			timeoutMs: 2000,
+		});
+		if (result.exitCode === 0) {
+			return;
+		}
+		detail = result.timedOut
+			? "timed out"
+			: result.stderr.trim() || `exit code ${result.exitCode}`;
+	} catch (error) {
+		detail = error instanceof Error ? error.message : String(error);
+	}
+	throw new AerospaceUnavailableError(
+		`Unable to reach aerospace (${detail}). Is AeroSpace installed and running?`,
+	);
+}
@@ -0,0 +1,231 @@
+import { getFocusedWorkspace, switchToWorkspace } from "./aerospace";
+import { resolveLayoutApps } from "./apps";
+import { detectDisplays, getLayoutDisplay } from "./displays";
+import { ConfigError } from "./errors";
+import { cacheWindowLists } from "./exec";
+import { clearWorkspace } from "./existing";
+import { debugLog } from "./log";
+import { applyLayoutParams } from "./params";
+import { reconcileLayout } from "./reconcile";
+import { runReport } from "./report";
+import {
+	type LayoutPart,
+	getLayoutParts,
+	moveWorkspaceToDisplay,
+} from "./sections";
+import { getWorkArea } from "./sizes";
+import { saveSnapshot, takeSnapshot } from "./snapshot";
+import {
+	traverseTreeMove,
+	traverseTreeReposition,
+	traverseTreeResize,
+} from "./traverse";
+import type { ApplyContext, DisplayInfo, LayoutConfig, Session } from "./types";
+import { assertNoValidationIssues } from "./validation";
+import { resolveLayoutVariant } from "./variants";
+
+export type ApplyOptions = {
+	// Only change what differs from the layout
+	reconcile?: boolean;
+	// Values of the layouts' params, from --set
+	params?: Record<string, string>;
+};
+
+/**
+ * Apply a layout to its workspace. Returns whether anything changed.
+ */
+async function applyLayout(ctx: ApplyContext): Promise<boolean> {
+	if (ctx.reconcile) {
+		return await reconcileLayout(ctx);
+	}
+
+	const { layout } = ctx;
+	debugLog("[INFO] Step 2/8: Clearing workspace");
+	await clearWorkspace(ctx);
+
+	debugLog(`[INFO] Step 3/8: Switching to workspace ${layout.workspace}`);
+	await switchToWorkspace(ctx.originalWorkspace); // Restore original workspace
+	await switchToWorkspace(layout.workspace); // Then switch back to target workspace. This helps with multimonitor setups.
+
+	// Each step checks the tree for the windows it needs instead of sleeping
+	debugLog("[INFO] Step 4/8: Moving windows to workspace");
+	await traverseTreeMove(ctx, layout.windows);
+
+	debugLog("[INFO] Step 5/8: Repositioning windows");
+	await switchToWorkspace(ctx.originalWorkspace);
+	await switchToWorkspace(layout.workspace);
+	await traverseTreeReposition(ctx, layout.windows);
+
+	debugLog(`[INFO] Step 6/8: Refocusing workspace ${layout.workspace}`);
+	await switchToWorkspace(ctx.originalWorkspace);
+	await switchToWorkspace(layout.workspace);
+
+	debugLog("[INFO] Step 7/8: Resizing windows");
+	await traverseTreeResize(ctx, layout.windows);
+
+	debugLog(`[INFO] Step 8/8: Refocusing workspace ${layout.workspace}`);
+	await switchToWorkspace(ctx.originalWorkspace);
+	await switchToWorkspace(layout.workspace);
+	return true;
+}
+
+/**
+ * Apply layout parts in order, after saving where their windows are for
+ * --undo. Displays and the original workspace are detected once, and a window
+ * placed by one part is not taken by the next.
+ */
+async function applyLayoutParts(
+	config: LayoutConfig,
+	parts: LayoutPart[],
+	displays: DisplayInfo[],
+	originalWorkspace: string,
+	reconcile: boolean,
+) {
+	const snapshot = await takeSnapshot(
+		parts.map(({ layout }) => layout.workspace),
+		originalWorkspace,
+	);
+	let changed = !reconcile;
+	let finished = false;
+	try {
+		for (const [i, { name, layout, moveToDisplay }] of parts.entries()) {
+			debugLog(`[INFO] Applying layout ${name} (${i + 1}/${parts.length})`);
+			const display = getLayoutDisplay(name, layout, displays);
+			if (moveToDisplay) {
+				await moveWorkspaceToDisplay(layout.workspace, display);
+			}
+			const ctx: ApplyContext = {
+				name,
+				// With the apps that are installed
+				layout: await resolveLayoutApps(layout),
+				display,
+				originalWorkspace,
+				stashWorkspace: config.stashWorkspace,
+				workArea: await getWorkArea(display),
+				reconcile,
+			};
+			// Keep applyLayout first so that every layout is applied
+			changed = (await cacheWindowLists(() => applyLayout(ctx))) || changed;
+		}
+		finished = true;
+	} finally {
+		// A run that changed nothing shouldn't replace the last undo point
+		if (changed || !finished) {
+			await saveSnapshot(snapshot);
+		}
+	}
+}
+
+/**
+ * The parts of the named layouts, with their params filled in and the variant
+ * for the connected displays
+ */
+function resolveLayoutParts(
+	config: LayoutConfig,
+	layoutNames: string[],
+	displays: DisplayInfo[],
+	params: Record<string, string>,
+): LayoutPart[] {
+	return layoutNames.flatMap((layoutName) => {
+		const layout = config.layouts[layoutName];
+		return layout
+			? getLayoutParts(
+					layoutName,
+					resolveLayoutVariant(
+						layoutName,
+						applyLayoutParams(layoutName, layout, params),
+						displays,
+					),
+				)
+			: [];
+	});
+}
+
+/**
+ * The named session, after checking that it and its layouts have no problems
+ */
+export function getValidSession(config: LayoutConfig, name: string): Session {
+	const session = config.sessions?.[name];
+	if (!session) {
+		throw new ConfigError(`Session not found: ${name}`);
+	}
+	assertNoValidationIssues(config, session.layouts, name);
+	return session;
+}
+
+/**
+ * Check that the named layout exists and has no problems
+ */
+export function assertValidLayout(config: LayoutConfig, layoutName: string) {
+	if (!config.layouts[layoutName]) {
+		throw new ConfigError(`Layout not found: ${layoutName}`);
+	}
+	assertNoValidationIssues(config, [layoutName]);
+}
+
+/**
+ * Apply the layouts of a session in order
+ */
+export async function applySession(
+	config: LayoutConfig,
+	name: string,
+	{ reconcile = false, params = {} }: ApplyOptions = {},
+) {
+	const session = getValidSession(config, name);
+	runReport.session = name;
+	runReport.layouts = session.layouts;
+
+	const displays = await detectDisplays();
+	const originalWorkspace = await getFocusedWorkspace();
+	debugLog(`[INFO] Original workspace: ${originalWorkspace}`);
+
+	debugLog(`[INFO] Session ${name}: ${session.layouts.join(", ")}`);
+	const parts = resolveLayoutParts(config, session.layouts, displays, params);
+	await applyLayoutParts(config, parts, displays, originalWorkspace, reconcile);
+
+	const focus = session.focus ?? parts[0]?.layout.workspace;
+	if (focus) {
+		debugLog(`[INFO] Session ${name}: focusing workspace ${focus}`);
+		await switchToWorkspace(focus);
+	}
+}
+
+/**
+ * Apply a single layout from the configuration file
+ */
+export async function applyNamedLayout(
+	config: LayoutConfig,
+	layoutName: string,
+	{ reconcile = false, params = {} }: ApplyOptions = {},
+) {
+	debugLog(`[INFO] Loading layout: ${layoutName}`);
+	assertValidLayout(config, layoutName);
+	runReport.layouts = [layoutName];
+
+	const displays = await detectDisplays();
+	const parts = resolveLayoutParts(config, [layoutName], displays, params);
+	debugLog(
+		`[INFO] Layout loaded successfully. Workspace: ${parts.map((p) => p.layout.workspace).join(", ")}`,
+	);
+
+	debugLog("[INFO] ========================================");
+	debugLog("[INFO] Starting layout application");
+	debugLog("[INFO] ========================================");
+
+	// Detect and store the original workspace
+	debugLog("[INFO] Step 1/8: Detecting current workspace");
+	const originalWorkspace = await getFocusedWorkspace();
+	debugLog(`[INFO] Original workspace: ${originalWorkspace}`);
+
+	await applyLayoutParts(config, parts, displays, originalWorkspace, reconcile);
+
+	// Sections leave the first workspace focused, like sessions
+	const [first, ...others] = parts;
+	if (first && others.length > 0) {
+		await switchToWorkspace(first.layout.workspace);
+	}
+
+	debugLog("[INFO] ========================================");
+	debugLog("[INFO] Layout application complete!");
+	debugLog("[INFO] ========================================");
+}
@@ -0,0 +1,128 @@
+import { getAllWindows } from "./aerospace";
+import { runQuery } from "./exec";
+import { debugLog } from "./log";
+import { parseSize } from "./sizes";
+import { getLayoutWindows } from "./traverse";
+import type { Layout, LayoutItem, LayoutWindow, Size } from "./types";
+
+/**
+ * Whether Spotlight knows an app with the bundle ID
+ */
+async function isAppInstalled(bundleId: string): Promise<boolean> {
+	const paths = await runQuery([
+		"mdfind",
+		`kMDItemCFBundleIdentifier == "${bundleId}"`,
+	]).catch((error) => {
+		debugLog(`[WARN] Unable to look up ${bundleId}: ${error}`);
+		return "";
+	});
+	return paths.trim() !== "";
+}
+
+// A ratio size scaled by `factor`, as a percentage
+function scaleSize(size: Size, factor: number): Size {
+	const parsed = parseSize(size);
+	return parsed.type === "ratio"
+		? `${Number((parsed.ratio * factor * 100).toFixed(2))}%`
+		: size;
+}
+
+/**
+ * The tree with every entry's app from `apps`, without the entries that have
+ * none and the groups left empty. When removed items had fraction sizes, those
+ * of their siblings are scaled up so they keep their proportions and take the
+ * room that was freed.
+ */
+function pruneItems(
+	items: LayoutItem[],
+	apps: Map<LayoutWindow, string | null>,
+): LayoutItem[] {
+	const kept: LayoutItem[] = [];
+	let removedRatio = 0;
+	for (const item of items) {
+		const pruned = pruneItem(item, apps);
+		if (pruned) {
+			kept.push(pruned);
+		} else if ("size" in item) {
+			const size = parseSize(item.size);
+			removedRatio += size.type === "ratio" ? size.ratio : 0;
+		}
+	}
+	if (removedRatio <= 0 || removedRatio >= 1) {
+		return kept;
+	}
+	return kept.map((item) =>
+		"size" in item
+			? { ...item, size: scaleSize(item.size, 1 / (1 - removedRatio)) }
+			: item,
+	);
+}
+
+function pruneItem(
+	item: LayoutItem,
+	apps: Map<LayoutWindow, string | null>,
+): LayoutItem | null {
+	if ("bundleId" in item) {
+		const bundleId = apps.get(item);
+		if (bundleId === undefined || bundleId === item.bundleId) {
+			return item;
+		}
+		return bundleId ? { ...item, bundleId } : null;
+	}
+	const windows = pruneItems(item.windows, apps);
+	return windows.length > 0 ? { ...item, windows } : null;
+}
+
+/**
+ * The layout with each entry using the first of its bundleId and fallback
+ * apps that is running or installed. Optional entries without any are left
+ * out; other entries keep their bundleId and fail like any app that doesn't
+ * launch.
+ */
+export async function resolveLayoutApps(layout: Layout): Promise<Layout> {
+	const entries = getLayoutWindows(layout.windows).filter(
+		(item) => item.optional || item.fallback,
+	);
+	if (entries.length === 0) {
+		return layout;
+	}
+
+	const running = new Set(
+		(await getAllWindows()).map((w) => w["app-bundle-id"]),
+	);
+	const installed = new Map<string, Promise<boolean>>();
+	function isAvailable(bundleId: string): Promise<boolean> {
+		if (running.has(bundleId)) {
+			return Promise.resolve(true);
+		}
+		let result = installed.get(bundleId);
+		if (!result) {
+			result = isAppInstalled(bundleId);
+			installed.set(bundleId, result);
+		}
+		return result;
+	}
+
+	const apps = new Map<LayoutWindow, string | null>();
+	for (const item of entries) {
+		let app: string | null = null;
+		for (const bundleId of [item.bundleId, ...(item.fallback ?? [])]) {
+			if (await isAvailable(bundleId)) {
+				app = bundleId;
+				break;
+			}
+		}
+		if (app === null) {
+			debugLog(
+				item.optional
+					? `[INFO] Leaving out ${item.bundleId}: not installed`
+					: `[WARN] None of the apps for ${item.bundleId} is installed`,
+			);
+			app = item.optional ? null : item.bundleId;
+		} else if (app !== item.bundleId) {
+			debugLog(`[INFO] Using ${app} as ${item.bundleId} is not installed`);
+		}
+		apps.set(item, app);
+	}
+	return { ...layout, windows: pruneItems(layout.windows, apps) };
+}
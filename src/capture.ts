@@ -0,0 +1,359 @@
+import {
+	getFocusedWorkspace,
+	isWorkspaceVisible,
+	switchToWorkspace,
+} from "./aerospace";
+import { detectDisplays, getDisplayForMonitor } from "./displays";
+import { runAerospaceQueryJson, runQueryJson } from "./exec";
+import { readConfigFile, writeConfigFile } from "./formats";
+import { debugLog, logMessage } from "./log";
+import { type Extent, getWorkArea } from "./sizes";
+import type {
+	Layout,
+	LayoutConfigFile,
+	LayoutItem,
+	LayoutWindow,
+	LayoutWindowWithSize,
+	Orientation,
+	Size,
+	WorkArea,
+} from "./types";
+
+export type WindowFrame = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+export type CapturedWindow = {
+	windowId: string;
+	bundleId: string;
+	appName: string;
+	title: string;
+	frame: WindowFrame;
+};
+
+export type CapturedNode =
+	| { window: CapturedWindow; frame: WindowFrame }
+	| {
+			orientation: Orientation;
+			accordion: boolean;
+			children: CapturedNode[];
+			frame: WindowFrame;
+	  };
+
+// Pixels of slack allowed when deciding whether two windows share a row/column
+const FRAME_TOLERANCE = 4;
+
+// JXA script returning the frame of every window of the given process ids.
+// Aerospace does not expose window geometry, so it is read from System Events.
+const windowFramesScript = `
+function run(argv) {
+	const systemEvents = Application("System Events");
+	const frames = [];
+	for (const pid of argv) {
+		const processes = systemEvents.processes.whose({ unixId: Number(pid) })();
+		if (processes.length === 0) continue;
+		for (const window of processes[0].windows()) {
+			const [x, y] = window.position();
+			const [width, height] = window.size();
+			frames.push({ pid: Number(pid), title: window.name(), x, y, width, height });
+		}
+	}
+	return JSON.stringify(frames);
+}`;
+
+export async function captureWorkspaceWindows(
+	workspace: string,
+): Promise<{ windows: CapturedWindow[]; monitorName?: string }> {
+	const windows: {
+		"window-id": string;
+		"app-name": string;
+		"window-title": string;
+		"app-bundle-id": string;
+		"app-pid": number;
+		"monitor-name": string;
+	}[] = await runAerospaceQueryJson([
+		"list-windows",
+		"--workspace",
+		workspace,
+		"--json",
+		"--format",
+		"%{window-id} %{app-name} %{window-title} %{app-bundle-id} %{app-pid} %{monitor-name}",
+	]);
+	if (windows.length === 0) {
+		return { windows: [] };
+	}
+
+	const pids = [...new Set(windows.map((w) => String(w["app-pid"])))];
+	const frames = await runQueryJson<
+		(WindowFrame & { pid: number; title: string })[]
+	>(["osascript", "-l", "JavaScript", "-e", windowFramesScript, ...pids]);
+
+	const captured: CapturedWindow[] = [];
+	for (const window of windows) {
+		// Prefer an exact title match, then any unclaimed window of the same process
+		const titleMatch = frames.findIndex(
+			(f) => f.pid === window["app-pid"] && f.title === window["window-title"],
+		);
+		const frameIndex =
+			titleMatch >= 0
+				? titleMatch
+				: frames.findIndex((f) => f.pid === window["app-pid"]);
+		const [frame] = frameIndex >= 0 ? frames.splice(frameIndex, 1) : [];
+		if (!frame) {
+			debugLog(
+				`[WARN] No frame found for ${window["app-name"]} (${window["window-id"]}), skipping`,
+			);
+			continue;
+		}
+		captured.push({
+			windowId: String(window["window-id"]),
+			bundleId: window["app-bundle-id"],
+			appName: window["app-name"],
+			title: window["window-title"],
+			frame: {
+				x: frame.x,
+				y: frame.y,
+				width: frame.width,
+				height: frame.height,
+			},
+		});
+	}
+
+	return { windows: captured, monitorName: windows[0]?.["monitor-name"] };
+}
+
+export function boundingFrame(frames: WindowFrame[]): WindowFrame {
+	const left = Math.min(...frames.map((f) => f.x));
+	const top = Math.min(...frames.map((f) => f.y));
+	const right = Math.max(...frames.map((f) => f.x + f.width));
+	const bottom = Math.max(...frames.map((f) => f.y + f.height));
+	return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Split windows into runs that do not overlap along one axis, e.g. the
+ * columns of a horizontal container.
+ */
+function splitAlongAxis(
+	windows: CapturedWindow[],
+	orientation: Orientation,
+): CapturedWindow[][] {
+	const start = (f: WindowFrame) => (orientation === "horizontal" ? f.x : f.y);
+	const extent = (f: WindowFrame) =>
+		orientation === "horizontal" ? f.width : f.height;
+
+	const sorted = [...windows].sort((a, b) => start(a.frame) - start(b.frame));
+	const runs: CapturedWindow[][] = [];
+	let runEnd = Number.NEGATIVE_INFINITY;
+	for (const window of sorted) {
+		const current = runs[runs.length - 1];
+		if (current && start(window.frame) < runEnd - FRAME_TOLERANCE) {
+			current.push(window);
+			runEnd = Math.max(runEnd, start(window.frame) + extent(window.frame));
+		} else {
+			runs.push([window]);
+			runEnd = start(window.frame) + extent(window.frame);
+		}
+	}
+	return runs;
+}
+
+/**
+ * Rebuild the container tree of a workspace from its window frames.
+ * Windows stacked on top of each other are treated as an accordion.
+ */
+export function buildCapturedTree(windows: CapturedWindow[]): CapturedNode {
+	const [first] = windows;
+	if (windows.length === 1 && first) {
+		return { window: first, frame: first.frame };
+	}
+
+	const frame = boundingFrame(windows.map((w) => w.frame));
+	for (const orientation of ["horizontal", "vertical"] as const) {
+		const runs = splitAlongAxis(windows, orientation);
+		if (runs.length > 1) {
+			return {
+				orientation,
+				accordion: false,
+				children: runs.map(buildCapturedTree),
+				frame,
+			};
+		}
+	}
+
+	// Every window overlaps the others: accordion, oriented along the larger offset
+	const spreadX = frame.width - Math.min(...windows.map((w) => w.frame.width));
+	const spreadY =
+		frame.height - Math.min(...windows.map((w) => w.frame.height));
+	return {
+		orientation: spreadX >= spreadY ? "horizontal" : "vertical",
+		accordion: true,
+		children: [...windows]
+			.sort((a, b) => a.frame.x + a.frame.y - (b.frame.x + b.frame.y))
+			.map((w) => ({ window: w, frame: w.frame })),
+		frame,
+	};
+}
+
+/**
+ * Closest fraction to `ratio` with a denominator of at most `maxDenominator`.
+ */
+function toSize(ratio: number, maxDenominator = 12): Size {
+	let best = { numerator: 1, denominator: 1, error: Number.POSITIVE_INFINITY };
+	for (let denominator = 1; denominator <= maxDenominator; denominator++) {
+		const numerator = Math.max(1, Math.round(ratio * denominator));
+		const error = Math.abs(ratio - numerator / denominator);
+		if (error < best.error - Number.EPSILON) {
+			best = { numerator, denominator, error };
+		}
+	}
+	return `${best.numerator}/${best.denominator}`;
+}
+
+/**
+ * Items for the children of a container, sized like getTargetSizes sizes
+ * them: relative to the container after the inner gaps between them
+ */
+function capturedChildrenToItems(
+	children: CapturedNode[],
+	orientation: Orientation,
+	container: Extent,
+	workArea: WorkArea,
+	withSize: boolean,
+	windowIds?: Map<LayoutWindow, string>,
+): LayoutItem[] {
+	const dimension = orientation === "horizontal" ? "width" : "height";
+	const available =
+		container[dimension] -
+		workArea.innerGaps[orientation] * (children.length - 1);
+	return children.map((child) =>
+		capturedNodeToItem(
+			child,
+			workArea,
+			withSize && available > 0
+				? toSize(child.frame[dimension] / available)
+				: undefined,
+			windowIds,
+		),
+	);
+}
+
+function capturedNodeToItem(
+	node: CapturedNode,
+	workArea: WorkArea,
+	size: Size | undefined,
+	windowIds?: Map<LayoutWindow, string>,
+): LayoutItem {
+	if ("window" in node) {
+		const item: LayoutWindow | LayoutWindowWithSize = size
+			? { bundleId: node.window.bundleId, size }
+			: { bundleId: node.window.bundleId };
+		windowIds?.set(item, node.window.windowId);
+		return item;
+	}
+
+	const windows = capturedChildrenToItems(
+		node.children,
+		node.orientation,
+		node.frame,
+		workArea,
+		!node.accordion && node.children.length > 1,
+		windowIds,
+	);
+	const group = node.accordion
+		? { orientation: node.orientation, layout: "accordion" as const, windows }
+		: { orientation: node.orientation, windows };
+	return size ? { ...group, size } : group;
+}
+
+/**
+ * Convert a captured tree to a layout. Sizes are relative to the parent
+ * container: the work area for the top-level items, the group's frame for
+ * nested ones. When `windowIds` is given, it receives the window each entry
+ * was captured from.
+ */
+export function capturedTreeToLayout(
+	tree: CapturedNode,
+	workspace: string,
+	workArea: WorkArea,
+	windowIds?: Map<LayoutWindow, string>,
+): Layout {
+	if ("window" in tree) {
+		return {
+			workspace,
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [capturedNodeToItem(tree, workArea, undefined, windowIds)],
+		};
+	}
+
+	const prefix = tree.orientation === "horizontal" ? "h" : "v";
+	return {
+		workspace,
+		layout: tree.accordion ? `${prefix}_accordion` : `${prefix}_tiles`,
+		orientation: tree.orientation,
+		windows: capturedChildrenToItems(
+			tree.children,
+			tree.orientation,
+			workArea,
+			workArea,
+			!tree.accordion && tree.children.length > 1,
+			windowIds,
+		),
+	};
+}
+
+// capture the windows of a workspace as a layout and merge it into the config file
+export async function saveWorkspaceLayout(
+	configFilePath: string,
+	name: string,
+	workspace?: string,
+) {
+	const focusedWorkspace = await getFocusedWorkspace();
+	const targetWorkspace = workspace ?? focusedWorkspace;
+	debugLog(`[INFO] Capturing workspace ${targetWorkspace} as layout "${name}"`);
+
+	// Window frames are only meaningful while the workspace is on screen
+	const wasVisible = await isWorkspaceVisible(targetWorkspace);
+	if (!wasVisible) {
+		await switchToWorkspace(targetWorkspace);
+	}
+	const { windows, monitorName } =
+		await captureWorkspaceWindows(targetWorkspace);
+	if (!wasVisible) {
+		await switchToWorkspace(focusedWorkspace);
+	}
+
+	const tileableWindows = windows.filter((w) => w.bundleId);
+	if (tileableWindows.length === 0) {
+		throw new Error(`No windows found in workspace ${targetWorkspace}`);
+	}
+
+	const displays = await detectDisplays();
+	const display = getDisplayForMonitor(monitorName, displays);
+
+	const layout = capturedTreeToLayout(
+		buildCapturedTree(tileableWindows),
+		targetWorkspace,
+		await getWorkArea(display),
+	);
+	if (!display.isMain) {
+		layout.display = display.name;
+	}
+
+	// Re-read the file so unknown keys such as $schema are preserved
+	const config: LayoutConfigFile = (await Bun.file(configFilePath).exists())
+		? await readConfigFile<LayoutConfigFile>(configFilePath)
+		: {};
+	const existed = Boolean(config.layouts?.[name]);
+	config.stashWorkspace ??= "S";
+	config.layouts = { ...config.layouts, [name]: layout };
+	await writeConfigFile(configFilePath, config);
+
+	logMessage(
+		`${existed ? "Updated" : "Saved"} layout "${name}" (workspace ${targetWorkspace}, ${tileableWindows.length} window(s)) in ${configFilePath}`,
+	);
+}
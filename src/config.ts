@@ -0,0 +1,245 @@
+import { dirname, isAbsolute, resolve } from "node:path";
+import { Glob } from "bun";
+import { ConfigError } from "./errors";
+import { getConfigFormat, readConfigFile, writeConfigFile } from "./formats";
+import { debugLog, logMessage } from "./log";
+import type {
+	Layout,
+	LayoutConfig,
+	LayoutConfigFile,
+	LayoutDefinition,
+	LayoutItem,
+	LayoutItemDefinition,
+} from "./types";
+import { expandHome } from "./utils";
+
+/**
+ * Files matched by the include patterns of a file, in order. Patterns are
+ * relative to the including file; a pattern without wildcards must exist.
+ */
+async function getIncludedPaths(
+	path: string,
+	patterns: string[],
+): Promise<string[]> {
+	const paths: string[] = [];
+	for (const pattern of patterns) {
+		const expanded = expandHome(pattern);
+		const absolute = isAbsolute(expanded)
+			? expanded
+			: resolve(dirname(path), expanded);
+		if (!/[*?[{]/.test(expanded)) {
+			if (!(await Bun.file(absolute).exists())) {
+				throw new ConfigError(`${path}: included file not found: ${pattern}`);
+			}
+			paths.push(absolute);
+			continue;
+		}
+		const matches = await Array.fromAsync(
+			new Glob(absolute).scan({ cwd: "/", absolute: true }),
+		);
+		paths.push(...matches.sort());
+	}
+	return paths;
+}
+
+/**
+ * A file merged with the files it includes. Included files are merged in
+ * order and the including file last, so later definitions of a layout,
+ * fragment or session replace earlier ones.
+ */
+async function loadConfigFile(
+	path: string,
+	loading: string[] = [],
+): Promise<LayoutConfigFile> {
+	if (loading.includes(path)) {
+		throw new ConfigError(`Include cycle: ${[...loading, path].join(" -> ")}`);
+	}
+	const file = await readConfigFile<LayoutConfigFile>(path);
+	const { include = [], ...own } = file;
+
+	const merged: LayoutConfigFile = {};
+	for (const includedPath of await getIncludedPaths(path, include)) {
+		debugLog(`[INFO] Including ${includedPath}`);
+		mergeConfigFile(
+			merged,
+			await loadConfigFile(includedPath, [...loading, path]),
+		);
+	}
+	mergeConfigFile(merged, own);
+	return merged;
+}
+
+function mergeConfigFile(target: LayoutConfigFile, source: LayoutConfigFile) {
+	target.stashWorkspace = source.stashWorkspace ?? target.stashWorkspace;
+	if (source.fragments) {
+		target.fragments = { ...target.fragments, ...source.fragments };
+	}
+	if (source.layouts) {
+		target.layouts = { ...target.layouts, ...source.layouts };
+	}
+	if (source.sessions) {
+		target.sessions = { ...target.sessions, ...source.sessions };
+	}
+}
+
+/**
+ * Replace fragment references with copies of the fragments' items. Every
+ * reference gets its own copy, as windows are told apart by their entry.
+ */
+function expandFragments(
+	items: LayoutItemDefinition[],
+	fragments: Record<string, LayoutItemDefinition[]>,
+	expanding: string[] = [],
+): LayoutItem[] {
+	return items.flatMap((item): LayoutItem[] => {
+		if ("fragment" in item) {
+			const fragment = fragments[item.fragment];
+			if (!fragment) {
+				throw new ConfigError(`Fragment not found: ${item.fragment}`);
+			}
+			if (expanding.includes(item.fragment)) {
+				throw new ConfigError(
+					`Fragment cycle: ${[...expanding, item.fragment].join(" -> ")}`,
+				);
+			}
+			return expandFragments(structuredClone(fragment), fragments, [
+				...expanding,
+				item.fragment,
+			]);
+		}
+		if ("windows" in item) {
+			return [
+				{
+					...item,
+					windows: expandFragments(item.windows, fragments, expanding),
+				},
+			];
+		}
+		return [item];
+	});
+}
+
+/**
+ * A layout with the fields it doesn't set taken from the layout it extends,
+ * recursively
+ */
+function resolveExtends(
+	name: string,
+	layouts: Record<string, LayoutDefinition>,
+	extending: string[] = [],
+): LayoutDefinition {
+	const layout = layouts[name];
+	if (!layout) {
+		throw new ConfigError(
+			`Layout "${extending.at(-1)}" extends a layout that doesn't exist: ${name}`,
+		);
+	}
+	if (extending.includes(name)) {
+		throw new ConfigError(
+			`Layout inheritance cycle: ${[...extending, name].join(" -> ")}`,
+		);
+	}
+	const { extends: parentName, ...fields } = layout;
+	if (!parentName) {
+		return fields;
+	}
+	return {
+		...resolveExtends(parentName, layouts, [...extending, name]),
+		...fields,
+	};
+}
+
+function resolveLayout(
+	name: string,
+	layouts: Record<string, LayoutDefinition>,
+	fragments: Record<string, LayoutItemDefinition[]>,
+): Layout {
+	// Layouts extending the same one must not share its window entries
+	const layout = structuredClone(resolveExtends(name, layouts));
+	const expand = <T extends { windows?: LayoutItemDefinition[] }>(part: T) =>
+		part.windows
+			? { ...part, windows: expandFragments(part.windows, fragments) }
+			: part;
+
+	return {
+		...expand(layout),
+		...(layout.sections && {
+			sections: layout.sections.map(expand),
+		}),
+		...(layout.variants && {
+			variants: layout.variants.map(expand),
+		}),
+	} as Layout;
+}
+
+/**
+ * The configuration with includes merged, layouts extended and fragments
+ * expanded
+ */
+export function resolveLayoutConfig(file: LayoutConfigFile): LayoutConfig {
+	const { layouts = {}, fragments = {} } = file;
+	const config: LayoutConfig = {
+		stashWorkspace: file.stashWorkspace ?? "S",
+		layouts: Object.fromEntries(
+			Object.keys(layouts).map((name) => [
+				name,
+				resolveLayout(name, layouts, fragments),
+			]),
+		),
+	};
+	if (file.sessions) {
+		config.sessions = file.sessions;
+	}
+	return config;
+}
+
+/**
+ * Read the configuration file and the files it includes
+ */
+export async function loadLayoutConfig(path: string): Promise<LayoutConfig> {
+	if (!(await Bun.file(path).exists())) {
+		throw new ConfigError(`Config file not found: ${path}`);
+	}
+	return resolveLayoutConfig(await loadConfigFile(resolve(path)));
+}
+
+const DEFAULT_CONFIG_DIR = "~/.config/aerospace";
+const DEFAULT_CONFIG_NAMES = [
+	"layouts.json",
+	"layouts.jsonc",
+	"layouts.yaml",
+	"layouts.toml",
+];
+
+/**
+ * The first of layouts.{json,jsonc,yaml,toml} that exists in
+ * ~/.config/aerospace, or layouts.json when there is none
+ */
+export async function findDefaultConfigPath(): Promise<string> {
+	const paths = DEFAULT_CONFIG_NAMES.map((name) =>
+		expandHome(`${DEFAULT_CONFIG_DIR}/${name}`),
+	);
+	for (const path of paths) {
+		if (await Bun.file(path).exists()) {
+			return path;
+		}
+	}
+	return paths[0] as string;
+}
+
+/**
+ * Write a configuration file in the format of another file's extension. The
+ * file is converted as written: includes, extends and fragments are kept.
+ */
+export async function convertConfigFile(path: string, targetPath: string) {
+	getConfigFormat(targetPath);
+	if (!(await Bun.file(path).exists())) {
+		throw new ConfigError(`${path} not found`);
+	}
+	if (await Bun.file(targetPath).exists()) {
+		throw new ConfigError(`${targetPath} already exists`);
+	}
+	const file = await readConfigFile<LayoutConfigFile>(path);
+	await writeConfigFile(targetPath, file);
+	logMessage(`Converted ${path} to ${targetPath}`);
+}
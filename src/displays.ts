@@ -0,0 +1,302 @@
+import type { AerospaceMonitor } from "./aerospace";
+import { ConfigError } from "./errors";
+import { runQueryJson } from "./exec";
+import { debugLog } from "./log";
+import {
+	DisplayAlias,
+	type DisplayInfo,
+	type Layout,
+	type SPDisplaysDataType,
+	SPDisplaysValues,
+} from "./types";
+import { escapeRegExp } from "./utils";
+
+const SPDisplayCommand = "system_profiler SPDisplaysDataType -json";
+
+// "2560 x 1440 @ 60.00Hz" or "3840 x 2160"
+function parseResolution(text: string): { width: number; height: number } {
+	const [width, height] = text.split(" x ");
+	return {
+		width: Number.parseInt(width || "0", 10),
+		height: Number.parseInt(height || "0", 10),
+	};
+}
+
+export async function getDisplays(): Promise<DisplayInfo[]> {
+	const data = await runQueryJson<{ SPDisplaysDataType: SPDisplaysDataType[] }>(
+		SPDisplayCommand.split(" "),
+	);
+
+	return data.SPDisplaysDataType.flatMap((gpu: SPDisplaysDataType) =>
+		gpu.spdisplays_ndrvs?.map((d) => ({
+			name: d._name,
+			id: Number.parseInt(d._spdisplays_displayID) || undefined,
+			...parseResolution(
+				d._spdisplays_resolution || d.spdisplays_resolution || "",
+			),
+			pixels: d._spdisplays_pixels
+				? parseResolution(d._spdisplays_pixels)
+				: undefined,
+			isMain: d.spdisplays_main === SPDisplaysValues.Yes,
+			isInternal: d.spdisplays_connection_type === SPDisplaysValues.Internal,
+		})),
+	);
+}
+
+export function getDisplayByAlias(
+	alias: DisplayAlias,
+	displays: DisplayInfo[],
+): DisplayInfo | undefined {
+	switch (alias) {
+		case DisplayAlias.Main:
+			return getMainDisplay(displays);
+		case DisplayAlias.Secondary:
+			if (displays.length < 2) {
+				debugLog(
+					"Alias 'secondary' is used, but only one display found. Defaulting to the main display.",
+				);
+				return getMainDisplay(displays);
+			}
+			if (displays.length > 2) {
+				throw new Error(
+					"Alias 'secondary' is used, but multiple secondary displays are found. Please specify an exact display name or use a different alias.",
+				);
+			}
+			return displays.find((d) => !d.isMain);
+		case DisplayAlias.External: {
+			const externalDisplays = displays.filter((d) => !d.isInternal);
+			if (externalDisplays.length === 0) {
+				debugLog(
+					"Alias 'external' is used, but no external displays found. Defaulting to the main display.",
+				);
+				return getMainDisplay(displays);
+			}
+			if (externalDisplays.length > 1) {
+				throw new Error(
+					"Multiple external displays found. Please specify an exact display name or use a different alias.",
+				);
+			}
+			return externalDisplays[0];
+		}
+		case DisplayAlias.Internal:
+			return displays.find((d) => d.isInternal);
+	}
+}
+
+function getDisplayByName(
+	regExp: string,
+	displays: DisplayInfo[],
+): DisplayInfo | undefined {
+	return displays.find((d) => new RegExp(regExp, "i").test(d.name));
+}
+
+function getDisplayById(
+	id: number,
+	displays: DisplayInfo[],
+): DisplayInfo | undefined {
+	return displays.find((d) => d.id === id);
+}
+
+function getMainDisplay(displays: DisplayInfo[]): DisplayInfo | undefined {
+	return displays.find((d) => d.isMain);
+}
+
+/**
+ * Whether a display is connected, without the fallbacks of selectDisplay:
+ * "external" needs an external display and "secondary" a second display
+ */
+export function isDisplayConnected(
+	display: string | number | DisplayAlias,
+	displays: DisplayInfo[],
+): boolean {
+	switch (display) {
+		case DisplayAlias.Main:
+			return getMainDisplay(displays) !== undefined;
+		case DisplayAlias.Secondary:
+			return displays.length > 1;
+		case DisplayAlias.External:
+			return displays.some((d) => !d.isInternal);
+		case DisplayAlias.Internal:
+			return displays.some((d) => d.isInternal);
+	}
+	if (typeof display === "number" || !Number.isNaN(Number(display))) {
+		return getDisplayById(Number(display), displays) !== undefined;
+	}
+	return getDisplayByName(display, displays) !== undefined;
+}
+
+export function selectDisplay(
+	layout: Layout,
+	displays: DisplayInfo[],
+): DisplayInfo {
+	let selectedDisplay: DisplayInfo | undefined;
+	if (layout.display) {
+		if (
+			typeof layout.display === "string" &&
+			Number.isNaN(Number(layout.display))
+		) {
+			const isAlias = Object.values(DisplayAlias).includes(
+				layout.display as DisplayAlias,
+			);
+			if (isAlias) {
+				selectedDisplay = getDisplayByAlias(
+					layout.display as DisplayAlias,
+					displays,
+				);
+			} else {
+				selectedDisplay = getDisplayByName(layout.display, displays);
+			}
+		} else if (
+			typeof layout.display === "number" ||
+			!Number.isNaN(Number(layout.display))
+		) {
+			const displayId = Number(layout.display);
+			selectedDisplay = getDisplayById(displayId, displays);
+		}
+	}
+
+	if (!selectedDisplay) {
+		debugLog(
+			`Display not found: ${layout.display}. Please specify a valid display name, alias, or ID. Defaulting to the main display.`,
+		);
+		selectedDisplay = getDisplayByAlias(
+			DisplayAlias.Main,
+			displays,
+		) as DisplayInfo;
+	}
+
+	debugLog(
+		`Using display: ${selectedDisplay.name} (${selectedDisplay.width}x${
+			selectedDisplay.height
+		}) (${selectedDisplay.isMain ? "main" : "secondary"}, ${
+			selectedDisplay.isInternal ? "internal" : "external"
+		})`,
+	);
+
+	return selectedDisplay;
+}
+
+export async function detectDisplays(): Promise<DisplayInfo[]> {
+	debugLog("[INFO] Detecting displays...");
+	const displays = await getDisplays();
+	if (!displays) {
+		throw new Error(
+			`No displays found. Please, debug with ${SPDisplayCommand}`,
+		);
+	}
+	debugLog(`[INFO] Found ${displays.length} display(s)`);
+	return displays;
+}
+
+export function getLayoutDisplay(
+	name: string,
+	layout: Layout,
+	displays: DisplayInfo[],
+): DisplayInfo {
+	const display = layout.display
+		? selectDisplay(layout, displays)
+		: getDisplayByAlias(DisplayAlias.Main, displays);
+
+	if (!display) {
+		throw new ConfigError(
+			`A display could not be selected for layout "${name}". Please check your configuration.`,
+		);
+	}
+	return display;
+}
+
+/**
+ * Screen named after a display. Screens are named like the displays, except
+ * the built-in one ("Built-in Retina Display" for "Color LCD").
+ */
+function findScreen<T>(
+	display: DisplayInfo,
+	screens: T[],
+	getName: (screen: T) => string,
+): T | undefined {
+	return (
+		screens.find(
+			(s) => getName(s).toLowerCase() === display.name.toLowerCase(),
+		) ??
+		(display.isInternal
+			? screens.find((s) => /built-in/i.test(getName(s)))
+			: undefined)
+	);
+}
+
+/**
+ * Aerospace monitor showing a display
+ */
+export function getMonitorForDisplay(
+	display: DisplayInfo,
+	monitors: AerospaceMonitor[],
+): AerospaceMonitor | undefined {
+	return findScreen(display, monitors, (m) => m["monitor-name"]);
+}
+
+// In screen coordinates: from the top-left corner of the main display
+type VisibleFrame = {
+	name: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+const visibleFramesScript = `
+ObjC.import("AppKit");
+const screens = ObjC.unwrap($.NSScreen.screens);
+// NSScreen frames start at the bottom-left corner of the main display
+const mainHeight = screens[0].frame.size.height;
+JSON.stringify(
+	screens.map((screen) => {
+		const frame = screen.visibleFrame;
+		return {
+			name: ObjC.unwrap(screen.localizedName),
+			x: frame.origin.x,
+			y: mainHeight - frame.origin.y - frame.size.height,
+			width: frame.size.width,
+			height: frame.size.height,
+		};
+	}),
+);`;
+
+/**
+ * Frame of a display without the menu bar and Dock, from NSScreen
+ */
+export async function getVisibleFrame(
+	display: DisplayInfo,
+): Promise<VisibleFrame | undefined> {
+	try {
+		const frames = await runQueryJson<VisibleFrame[]>([
+			"osascript",
+			"-l",
+			"JavaScript",
+			"-e",
+			visibleFramesScript,
+		]);
+		return findScreen(display, frames, (f) => f.name);
+	} catch (error) {
+		debugLog("[WARN] Unable to read the visible frames of the screens:", error);
+		return undefined;
+	}
+}
+
+/**
+ * Display an aerospace monitor is on, matched by name (main display otherwise)
+ */
+export function getDisplayForMonitor(
+	monitorName: string | undefined,
+	displays: DisplayInfo[],
+): DisplayInfo {
+	const display =
+		(monitorName &&
+			getDisplayByName(`^${escapeRegExp(monitorName)}$`, displays)) ||
+		getDisplayByAlias(DisplayAlias.Main, displays);
+	if (!display) {
+		throw new Error(
+			`No displays found. Please, debug with ${SPDisplayCommand}`,
+		);
+	}
+	return display;
+}
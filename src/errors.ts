@@ -0,0 +1,4 @@
+// The configuration is invalid or doesn't define what was asked for
+export class ConfigError extends Error {}
+
+export class AerospaceUnavailableError extends Error {}
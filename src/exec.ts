@@ -0,0 +1,336 @@
+import { colorize, debugLog, logMessage } from "./log";
+import { recordFailure, recordWarning } from "./report";
+import { delay } from "./utils";
+
+export type CommandResult = {
+	exitCode: number | null;
+	stdout: string;
+	stderr: string;
+	timedOut: boolean;
+};
+
+export type CommandOptions = {
+	timeoutMs?: number;
+	// Start the command without waiting for it to exit
+	detached?: boolean;
+	// Queries only read state, so they run even in dry-run mode
+	readOnly?: boolean;
+	// Extra context printed next to the command in dry-run mode
+	note?: string;
+};
+
+/**
+ * Runs external commands (aerospace, open, osascript, system_profiler).
+ * Every command the tool issues goes through the active executor.
+ */
+interface CommandExecutor {
+	dryRun: boolean;
+	run(command: string[], options?: CommandOptions): Promise<CommandResult>;
+}
+
+/**
+ * Spawns each command. `env` replaces the environment (and the PATH commands
+ * are looked up in), e.g. to run against stand-in binaries.
+ */
+export function createSpawnExecutor({
+	env,
+}: { env?: Record<string, string | undefined> } = {}): CommandExecutor {
+	return {
+		dryRun: false,
+		async run(command, { timeoutMs, detached } = {}) {
+			if (detached) {
+				Bun.spawn(command, {
+					env,
+					stdio: ["ignore", "ignore", "ignore"],
+				}).unref();
+				return { exitCode: 0, stdout: "", stderr: "", timedOut: false };
+			}
+
+			const proc = Bun.spawn(command, { env, stdout: "pipe", stderr: "pipe" });
+
+			let timedOut = false;
+			// Create a timeout that will forcefully kill the process
+			const timeoutId = timeoutMs
+				? setTimeout(() => {
+						timedOut = true;
+						// Try SIGTERM first
+						proc.kill();
+
+						// Force SIGKILL after 100ms if still running
+						setTimeout(() => {
+							try {
+								proc.kill(9); // SIGKILL
+							} catch (e) {
+								// Process may already be dead
+							}
+						}, 100);
+					}, timeoutMs)
+				: undefined;
+
+			// Give up on a killed process that still hasn't exited
+			const abandoned = new Promise<null>((resolve) => {
+				if (timeoutMs) {
+					setTimeout(() => resolve(null), timeoutMs + 200);
+				}
+			});
+
+			const output = await Promise.race([
+				Promise.all([
+					proc.exited,
+					new Response(proc.stdout).text(),
+					new Response(proc.stderr).text(),
+				]),
+				abandoned,
+			]);
+			clearTimeout(timeoutId);
+
+			if (!output) {
+				return { exitCode: null, stdout: "", stderr: "", timedOut: true };
+			}
+			const [exitCode, stdout, stderr] = output;
+			return { exitCode, stdout, stderr, timedOut };
+		},
+	};
+}
+
+function formatCommand(command: string[]): string {
+	return command
+		.map((arg) =>
+			/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replaceAll("'", "'\\''")}'`,
+		)
+		.join(" ");
+}
+
+/**
+ * Prints each command that would change something, in order, and reports it
+ * as successful. Queries are passed through so the plan reflects the real state.
+ */
+export function createDryRunExecutor(inner: CommandExecutor): CommandExecutor {
+	let step = 0;
+	return {
+		dryRun: true,
+		async run(command, options = {}) {
+			if (options.readOnly) {
+				return inner.run(command, options);
+			}
+			step++;
+			const note = options.note ? colorize(`  # ${options.note}`, "gray") : "";
+			logMessage(
+				`${String(step).padStart(3)}  ${formatCommand(command)}${note}`,
+			);
+			return { exitCode: 0, stdout: "", stderr: "", timedOut: false };
+		},
+	};
+}
+
+// Executor used for every command, see setExecutor
+export let executor: CommandExecutor = createSpawnExecutor();
+
+/**
+ * Replace the executor, e.g. with a dry-run one
+ */
+export function setExecutor(value: CommandExecutor) {
+	executor = value;
+}
+
+/**
+ * Run a command and return its stdout, throwing if it fails.
+ */
+export async function runCommand(
+	command: string[],
+	options: CommandOptions = {},
+): Promise<string> {
+	return getOutput(command, await executor.run(command, options));
+}
+
+function getOutput(command: string[], result: CommandResult): string {
+	if (result.exitCode !== 0) {
+		throw new Error(
+			`Command failed: ${formatCommand(command)} (exit code: ${result.exitCode})${
+				result.stderr ? `\n${result.stderr}` : ""
+			}`,
+		);
+	}
+	return result.stdout;
+}
+
+export async function runQuery(command: string[]): Promise<string> {
+	return runCommand(command, { readOnly: true });
+}
+
+export async function runQueryJson<T>(command: string[]): Promise<T> {
+	return JSON.parse(await runQuery(command));
+}
+
+/**
+ * Sends commands to AeroSpace: through its server socket, or by running its
+ * CLI through the active executor
+ */
+export interface AerospaceClient {
+	run(args: string[], options?: CommandOptions): Promise<CommandResult>;
+}
+
+/**
+ * Runs `aerospace` for each command, so dry runs and stand-in binaries apply
+ */
+export function createCliClient(): AerospaceClient {
+	return {
+		run: (args, options) => executor.run(["aerospace", ...args], options),
+	};
+}
+
+// Client used for every aerospace command and query, see setAerospaceClient
+export let aerospaceClient: AerospaceClient = createCliClient();
+
+/**
+ * Replace the aerospace client, e.g. with one talking to the server socket
+ */
+export function setAerospaceClient(value: AerospaceClient) {
+	aerospaceClient = value;
+}
+
+// list-windows output by arguments while cacheWindowLists runs
+let windowLists: Map<string, Promise<string>> | null = null;
+
+/**
+ * Run `fn` with the output of list-windows queries cached, so a pass that
+ * reads the same windows for every entry asks aerospace once. The cache is
+ * dropped whenever the tool changes something through aerospace.
+ */
+export async function cacheWindowLists<T>(fn: () => Promise<T>): Promise<T> {
+	if (windowLists) {
+		return await fn();
+	}
+	windowLists = new Map();
+	try {
+		return await fn();
+	} finally {
+		windowLists = null;
+	}
+}
+
+/**
+ * Read window lists again from the next query, e.g. when waiting for an app
+ * to open its window
+ */
+export function invalidateWindowLists() {
+	windowLists?.clear();
+}
+
+/**
+ * Run an aerospace query and return its stdout, throwing if it fails
+ */
+export async function runAerospaceQuery(args: string[]): Promise<string> {
+	const key = args.join("\0");
+	const cached = args[0] === "list-windows" ? windowLists?.get(key) : undefined;
+	if (cached) {
+		return await cached;
+	}
+	const query = aerospaceClient
+		.run(args, { readOnly: true })
+		.then((result) => getOutput(["aerospace", ...args], result));
+	if (args[0] === "list-windows" && windowLists) {
+		const cache = windowLists;
+		cache.set(key, query);
+		query.catch(() => cache.delete(key));
+	}
+	return await query;
+}
+
+export async function runAerospaceQueryJson<T>(args: string[]): Promise<T> {
+	return JSON.parse(await runAerospaceQuery(args));
+}
+
+/**
+ * Execute an aerospace command with timeout - with retry logic
+ */
+export async function execAerospaceCommand(
+	args: string[],
+	timeoutMs = 1000,
+	optional = false,
+	maxRetries = 2,
+	note?: string,
+): Promise<boolean> {
+	const commandStr = `aerospace ${args.join(" ")}`;
+	const logLevel = optional ? "WARN" : "ERROR";
+	const log = console[optional ? "warn" : "error"];
+	// Failed optional commands don't make the run partial
+	const record = optional ? recordWarning : recordFailure;
+
+	for (let attempt = 1; attempt <= maxRetries; attempt++) {
+		if (attempt > 1) {
+			const retryDelay = 500 * attempt; // Increasing delay: 500ms, 1000ms, etc.
+			debugLog(
+				`[INFO] Retry attempt ${attempt}/${maxRetries} for: ${commandStr} (waiting ${retryDelay}ms)`,
+			);
+			await delay(retryDelay);
+		}
+
+		debugLog(
+			`[INFO] Executing: ${commandStr}${attempt > 1 ? ` (attempt ${attempt}/${maxRetries})` : ""}`,
+		);
+
+		const startTime = Date.now();
+		try {
+			const result = await aerospaceClient.run(args, { timeoutMs, note });
+			invalidateWindowLists();
+			const elapsed = Date.now() - startTime;
+
+			if (result.timedOut) {
+				const isLastAttempt = attempt === maxRetries;
+				if (isLastAttempt || optional) {
+					record(`Timeout: ${commandStr} exceeded ${timeoutMs}ms`);
+				}
+				if (isLastAttempt) {
+					log(
+						colorize(
+							`[${logLevel}] Timeout: ${commandStr} exceeded ${timeoutMs}ms (elapsed: ${elapsed}ms) after ${maxRetries} attempts`,
+							optional ? "yellow" : "red",
+						),
+					);
+				} else {
+					debugLog(
+						colorize(
+							`[INFO] Timeout: ${commandStr} exceeded ${timeoutMs}ms (elapsed: ${elapsed}ms) - will retry`,
+							"cyan",
+						),
+					);
+				}
+				if (!isLastAttempt && !optional) {
+					continue; // Retry critical commands
+				}
+				debugLog(
+					`[INFO] Command timed out${optional ? " but continuing (optional command)" : ""}`,
+				);
+				return optional;
+			}
+
+			if (result.exitCode === 0) {
+				debugLog(`[INFO] Completed: ${commandStr} (${elapsed}ms)`);
+				return true;
+			}
+
+			log(
+				`[${logLevel}] Command failed: ${commandStr} (exit code: ${result.exitCode})`,
+			);
+			record(
+				`Command failed: ${commandStr}${result.stderr ? `: ${result.stderr.trim()}` : ""}`,
+			);
+			if (result.stderr) {
+				log(`[${logLevel}] stderr: ${result.stderr}`);
+			}
+			return optional;
+		} catch (error) {
+			if (attempt < maxRetries) {
+				debugLog(`[INFO] Exception in ${commandStr}, will retry: ${error}`);
+				continue; // Retry on exception
+			}
+			log(`[${logLevel}] Exception in ${commandStr}: ${error}`);
+			record(`Exception in ${commandStr}: ${error}`);
+			return optional;
+		}
+	}
+
+	// Should never reach here, but just in case
+	return optional;
+}
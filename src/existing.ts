@@ -0,0 +1,114 @@
+import {
+	closeWindow,
+	floatWindow,
+	getWindowsInWorkspace,
+	minimizeWindow,
+	moveWindow,
+	tileWindow,
+} from "./aerospace";
+import { debugLog } from "./log";
+import type {
+	ApplyContext,
+	ExistingWindowRule,
+	ExistingWindowsPolicy,
+} from "./types";
+
+export type ExistingWindow = {
+	windowId: string;
+	bundleId: string;
+	appName: string;
+	floating: boolean;
+};
+
+// Windows kept floating by the keep rule during this run
+export const keptWindows = new Set<string>();
+
+/**
+ * What to do with a window of the app: its rule in `apps`, keep for the
+ * `stashExcept` apps, or the default
+ */
+export function getExistingWindowRule(
+	policy: ExistingWindowsPolicy | undefined,
+	bundleId: string,
+): ExistingWindowRule {
+	if (policy === undefined || typeof policy === "string") {
+		return policy ?? "stash";
+	}
+	if (policy.apps?.[bundleId]) {
+		return policy.apps[bundleId];
+	}
+	if (policy.stashExcept?.includes(bundleId)) {
+		return "keep";
+	}
+	return policy.default ?? "stash";
+}
+
+/**
+ * Stash, move, close, minimize or keep a window in the layout's workspace that
+ * the layout doesn't use, as its existingWindows policy says. A kept window is
+ * made floating, so the layout's joins and sizes only see its own windows.
+ * Returns whether the window was taken out of the workspace's tiling tree;
+ * keeping a window doesn't count.
+ */
+export async function clearExistingWindow(
+	ctx: ApplyContext,
+	{ windowId, bundleId, appName, floating }: ExistingWindow,
+): Promise<boolean> {
+	const rule = getExistingWindowRule(ctx.layout.existingWindows, bundleId);
+	const label = `${appName} (${windowId})`;
+	switch (rule) {
+		case "keep":
+			debugLog(`[INFO] Keeping window ${label}, floating`);
+			if (!floating) {
+				await floatWindow(windowId);
+			}
+			keptWindows.add(windowId);
+			return false;
+		case "close":
+			debugLog(`[INFO] Closing window ${label}`);
+			await closeWindow(windowId);
+			return true;
+		case "minimize":
+			debugLog(`[INFO] Minimizing window ${label}`);
+			await minimizeWindow(windowId);
+			return true;
+	}
+	const workspace = rule === "stash" ? ctx.stashWorkspace : rule.workspace;
+	debugLog(`[INFO] Moving window ${label} to workspace ${workspace}`);
+	await moveWindow(windowId, workspace);
+	return true;
+}
+
+/**
+ * Tile a window again that the keep rule floated, now that the layout places
+ * it, e.g. a stashExcept app that the layout also lists
+ */
+export async function tileKeptWindow(windowId: string) {
+	if (keptWindows.delete(windowId)) {
+		debugLog(`[INFO] Tiling kept window ${windowId}, placed by the layout`);
+		await tileWindow(windowId);
+	}
+}
+
+/**
+ * Make room for the layout: handle every window already in its workspace
+ * with the existingWindows policy (all stashed by default)
+ */
+export async function clearWorkspace(ctx: ApplyContext) {
+	const { workspace } = ctx.layout;
+	debugLog(`[INFO] Clearing workspace: ${workspace}`);
+	const windows = await getWindowsInWorkspace(workspace);
+	debugLog(`[INFO] Found ${windows.length} window(s) in the workspace`);
+
+	for (const window of windows) {
+		if (window["window-id"]) {
+			await clearExistingWindow(ctx, {
+				windowId: String(window["window-id"]),
+				bundleId: window["app-bundle-id"],
+				appName: window["app-name"],
+				floating: window["window-layout"] === "floating",
+			});
+		}
+	}
+	debugLog(`[INFO] Workspace ${workspace} cleared`);
+}
@@ -0,0 +1,191 @@
+import { floatWindow } from "./aerospace";
+import { captureWorkspaceWindows, type WindowFrame } from "./capture";
+import { runAerospaceQueryJson, runCommand } from "./exec";
+import { debugLog } from "./log";
+import { reportStep } from "./report";
+import { parseSize } from "./sizes";
+import type {
+	Anchor,
+	ApplyContext,
+	LayoutWindow,
+	Length,
+	WorkArea,
+} from "./types";
+import { getResolvedWindowId } from "./windows";
+
+const setWindowFrameScript = `
+function run([pid, title, x, y, width, height]) {
+	const processes = Application("System Events").processes.whose({ unixId: Number(pid) })();
+	if (processes.length === 0) throw new Error("No process " + pid);
+	const windows = processes[0].windows();
+	const window = windows.find((w) => w.name() === title) ?? windows[0];
+	if (!window) throw new Error("No window for process " + pid);
+	window.position = [Number(x), Number(y)];
+	if (width && height) window.size = [Number(width), Number(height)];
+}`;
+
+function toPixels(length: Length | undefined, extent: number): number {
+	if (!length) {
+		return 0;
+	}
+	const size = parseSize(length);
+	return size.type === "pixels"
+		? size.pixels
+		: size.type === "ratio"
+			? size.ratio * extent
+			: 0;
+}
+
+/**
+ * Where a floating window goes in the work area. `frame.x` and `frame.y` are
+ * offsets from the anchor, towards the middle of the screen. The window keeps
+ * its current size when `frame` has none.
+ */
+export function getFloatingFrame(
+	item: LayoutWindow,
+	workArea: WorkArea,
+	currentSize?: { width: number; height: number },
+): WindowFrame | null {
+	const { frame = {}, anchor = "top-left" } = item;
+	const width = frame.width
+		? toPixels(frame.width, workArea.width)
+		: currentSize?.width;
+	const height = frame.height
+		? toPixels(frame.height, workArea.height)
+		: currentSize?.height;
+	if (width === undefined || height === undefined) {
+		return null;
+	}
+
+	const [vertical, horizontal] = getAnchorSides(anchor);
+	const dx = toPixels(frame.x, workArea.width);
+	const dy = toPixels(frame.y, workArea.height);
+	const x =
+		horizontal === "left"
+			? workArea.x + dx
+			: horizontal === "right"
+				? workArea.x + workArea.width - width - dx
+				: workArea.x + (workArea.width - width) / 2 + dx;
+	const y =
+		vertical === "top"
+			? workArea.y + dy
+			: vertical === "bottom"
+				? workArea.y + workArea.height - height - dy
+				: workArea.y + (workArea.height - height) / 2 + dy;
+	return {
+		x: Math.round(x),
+		y: Math.round(y),
+		width: Math.round(width),
+		height: Math.round(height),
+	};
+}
+
+function getAnchorSides(
+	anchor: Anchor,
+): ["top" | "center" | "bottom", "left" | "center" | "right"] {
+	switch (anchor) {
+		case "top":
+			return ["top", "center"];
+		case "bottom":
+			return ["bottom", "center"];
+		case "left":
+			return ["center", "left"];
+		case "right":
+			return ["center", "right"];
+		case "center":
+			return ["center", "center"];
+		default: {
+			const [vertical, horizontal] = anchor.split("-");
+			return [vertical as "top" | "bottom", horizontal as "left" | "right"];
+		}
+	}
+}
+
+/**
+ * Take floating windows out of the tiling tree, before the tiled windows are
+ * joined
+ */
+export async function floatWindows(ctx: ApplyContext, items: LayoutWindow[]) {
+	for (const item of items) {
+		const windowId = getResolvedWindowId(item);
+		if (windowId) {
+			debugLog(`[INFO] Making ${item.bundleId} (${windowId}) floating`);
+			await reportStep(ctx, item, () => floatWindow(windowId), "floated");
+		}
+	}
+}
+
+/**
+ * Move and resize floating windows to their frames
+ */
+export async function placeFloatingWindows(
+	ctx: ApplyContext,
+	items: LayoutWindow[],
+) {
+	const floating = items.filter((item) => getResolvedWindowId(item));
+	if (floating.length === 0) {
+		return;
+	}
+
+	const { workspace } = ctx.layout;
+	const windows = await runAerospaceQueryJson<
+		{ "window-id": number; "app-pid": number; "window-title": string }[]
+	>([
+		"list-windows",
+		"--workspace",
+		workspace,
+		"--json",
+		"--format",
+		"%{window-id} %{app-pid} %{window-title}",
+	]);
+	// Current sizes, for frames without a size
+	const currentFrames = new Map(
+		(
+			await captureWorkspaceWindows(workspace).catch(() => ({ windows: [] }))
+		).windows.map((w) => [w.windowId, w.frame]),
+	);
+
+	for (const item of floating) {
+		const windowId = getResolvedWindowId(item) ?? "";
+		const window = windows.find((w) => String(w["window-id"]) === windowId);
+		const frame = getFloatingFrame(
+			item,
+			ctx.workArea,
+			currentFrames.get(windowId),
+		);
+		if (!window) {
+			debugLog(
+				`[WARN] Floating window ${item.bundleId} (${windowId}) is not in workspace ${workspace}`,
+			);
+			continue;
+		}
+		if (!frame) {
+			debugLog(
+				`[WARN] Unable to place floating window ${item.bundleId} (${windowId}): its current size is unknown, give frame a width and height`,
+			);
+			continue;
+		}
+		debugLog(
+			`[INFO] Placing ${item.bundleId} (${windowId}) at ${frame.x},${frame.y} ${frame.width}x${frame.height}`,
+		);
+		const hasSize = item.frame?.width || item.frame?.height;
+		await reportStep(
+			ctx,
+			item,
+			() =>
+				runCommand([
+					"osascript",
+					"-l",
+					"JavaScript",
+					"-e",
+					setWindowFrameScript,
+					String(window["app-pid"]),
+					window["window-title"],
+					String(frame.x),
+					String(frame.y),
+					...(hasSize ? [String(frame.width), String(frame.height)] : []),
+				]),
+			"placed",
+		);
+	}
+}
@@ -0,0 +1,82 @@
+import { extname } from "node:path";
+import { ConfigError } from "./errors";
+
+export type ConfigFormat = "json" | "jsonc" | "yaml" | "toml";
+
+const extensions: Record<string, ConfigFormat> = {
+	".json": "json",
+	".jsonc": "jsonc",
+	".yaml": "yaml",
+	".yml": "yaml",
+	".toml": "toml",
+};
+
+/**
+ * Format of a configuration file, from its extension
+ */
+export function getConfigFormat(path: string): ConfigFormat {
+	const format = extensions[extname(path).toLowerCase()];
+	if (!format) {
+		throw new ConfigError(
+			`Unknown configuration format for ${path}: use .json, .jsonc, .yaml or .toml`,
+		);
+	}
+	return format;
+}
+
+export function parseConfig(text: string, format: ConfigFormat): unknown {
+	switch (format) {
+		case "json":
+			return JSON.parse(text);
+		case "jsonc":
+			return Bun.JSONC.parse(text);
+		case "yaml":
+			return Bun.YAML.parse(text);
+		case "toml":
+			return Bun.TOML.parse(text);
+	}
+}
+
+export function stringifyConfig(value: object, format: ConfigFormat): string {
+	switch (format) {
+		case "json":
+		case "jsonc":
+			return `${JSON.stringify(value, null, "\t")}\n`;
+		case "yaml":
+			return `${Bun.YAML.stringify(value, null, "  ").trimEnd()}\n`;
+		case "toml":
+			return Bun.TOML.stringify(value);
+	}
+}
+
+/**
+ * Read a configuration file in the format of its extension
+ */
+export async function readConfigFile<T>(path: string): Promise<T> {
+	const format = getConfigFormat(path);
+	try {
+		return parseConfig(await Bun.file(path).text(), format) as T;
+	} catch (error) {
+		throw new ConfigError(
+			`Unable to read ${path}: ${(error as Error).message}`,
+		);
+	}
+}
+
+/**
+ * Write a configuration file in the format of its extension. Comments in a
+ * JSONC file are not kept.
+ */
+export async function writeConfigFile(path: string, value: object) {
+	const format = getConfigFormat(path);
+	let text: string;
+	try {
+		text = stringifyConfig(value, format);
+	} catch (error) {
+		// e.g. a value the format can't hold
+		throw new ConfigError(
+			`Unable to write ${path}: ${(error as Error).message}`,
+		);
+	}
+	await Bun.write(path, text);
+}
@@ -0,0 +1,40 @@
+let debugMode = false;
+// Logs go to stderr when stdout is kept for the --json report
+let logToStderr = false;
+
+export function setDebugMode(enabled: boolean) {
+	debugMode = enabled;
+}
+
+export function setLogToStderr(enabled: boolean) {
+	logToStderr = enabled;
+}
+
+// Progress messages, as opposed to the output asked for
+export function logMessage(...args: unknown[]) {
+	if (logToStderr) {
+		console.error(...args);
+	} else {
+		console.log(...args);
+	}
+}
+
+// Conditional logging function
+export function debugLog(...args: unknown[]) {
+	if (debugMode) {
+		logMessage(...args);
+	}
+}
+
+// ANSI color codes
+const colors = {
+	reset: "\x1b[0m",
+	red: "\x1b[31m",
+	yellow: "\x1b[33m",
+	cyan: "\x1b[36m",
+	gray: "\x1b[90m",
+};
+
+export function colorize(text: string, color: keyof typeof colors): string {
+	return `${colors[color]}${text}${colors.reset}`;
+}
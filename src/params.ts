@@ -0,0 +1,104 @@
+import { ConfigError } from "./errors";
+import type { Layout } from "./types";
+import { escapeRegExp } from "./utils";
+
+// ${name} in a string of a layout
+const VARIABLE = /\$\{([\w-]+)\}/g;
+
+/**
+ * Values given on the command line as `name=value`
+ */
+export function parseParamValues(
+	assignments: string[] = [],
+): Record<string, string> {
+	const values: Record<string, string> = {};
+	for (const assignment of assignments) {
+		const separator = assignment.indexOf("=");
+		if (separator < 1) {
+			throw new ConfigError(
+				`Invalid --set ${assignment}: expected name=value, e.g. --set project=api`,
+			);
+		}
+		values[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+	}
+	return values;
+}
+
+/**
+ * Names of the variables used in the strings of a value, in order
+ */
+function getVariables(value: unknown): string[] {
+	if (typeof value === "string") {
+		return [...value.matchAll(VARIABLE)].map(([, name]) => name as string);
+	}
+	if (Array.isArray(value)) {
+		return value.flatMap(getVariables);
+	}
+	if (value && typeof value === "object") {
+		return Object.values(value).flatMap(getVariables);
+	}
+	return [];
+}
+
+function substitute(
+	value: unknown,
+	values: Record<string, string>,
+	key?: string,
+): unknown {
+	if (typeof value === "string") {
+		return value.replace(VARIABLE, (_, name: string) => {
+			const replacement = values[name] as string;
+			// Values are matched as they are in window titles
+			return key === "windowTitle" ? escapeRegExp(replacement) : replacement;
+		});
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => substitute(item, values));
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([name, field]) => [
+				name,
+				substitute(field, values, name),
+			]),
+		);
+	}
+	return value;
+}
+
+/**
+ * The layout with every ${name} replaced by the value set on the command line
+ * or the default in its params. Throws when a variable it uses has neither.
+ */
+export function applyLayoutParams(
+	name: string,
+	layout: Layout,
+	setValues: Record<string, string>,
+): Layout {
+	const { params = {}, ...template } = layout;
+	const values: Record<string, string> = {};
+	for (const [param, defaultValue] of Object.entries(params)) {
+		if (typeof defaultValue === "string") {
+			values[param] = defaultValue;
+		}
+	}
+	Object.assign(values, setValues);
+
+	const variables = [...new Set(getVariables(template))];
+	if (variables.length === 0) {
+		return template;
+	}
+	const missing = variables.filter(
+		(variable) => !Object.hasOwn(values, variable),
+	);
+	if (missing.length > 0) {
+		throw new ConfigError(
+			`Layout "${name}" needs a value for ${missing
+				.map((variable) => `\${${variable}}`)
+				.join(", ")}: pass ${missing
+				.map((variable) => `--set ${variable}=<value>`)
+				.join(" ")}`,
+		);
+	}
+	return substitute(template, values) as Layout;
+}
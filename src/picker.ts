@@ -0,0 +1,168 @@
+import { detectDisplays, getLayoutDisplay } from "./displays";
+import { colorize, debugLog } from "./log";
+import { renderLayoutPreview } from "./preview";
+import type { DisplayInfo, LayoutConfig } from "./types";
+import { resolveLayoutVariant } from "./variants";
+
+// Layout names shown at once
+const LIST_HEIGHT = 10;
+// Preview width, in columns, when the terminal is wider
+const PREVIEW_COLUMNS = 60;
+// Aspect ratio of the preview when the displays can't be read
+const FALLBACK_DISPLAY = { width: 1512, height: 982 };
+
+/**
+ * How well `query` matches `text` as a fuzzy search, or null when its
+ * characters don't all appear in order. Consecutive characters and matches
+ * at the start of a word score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const needle = query.toLowerCase();
+	const haystack = text.toLowerCase();
+	let score = 0;
+	let position = 0;
+	let previous = -2;
+	for (const char of needle) {
+		const index = haystack.indexOf(char, position);
+		if (index === -1) {
+			return null;
+		}
+		score += 1;
+		if (index === previous + 1) {
+			score += 2;
+		}
+		if (index === 0 || /[\s_\-./]/.test(haystack[index - 1] ?? "")) {
+			score += 3;
+		}
+		score -= (index - position) * 0.1;
+		previous = index;
+		position = index + 1;
+	}
+	return score;
+}
+
+/**
+ * Layout names matching the query, best matches first
+ */
+export function filterLayoutNames(names: string[], query: string): string[] {
+	return names
+		.map((name) => ({ name, score: fuzzyScore(query, name) }))
+		.filter(
+			(match): match is { name: string; score: number } => match.score !== null,
+		)
+		.sort((a, b) => b.score - a.score)
+		.map(({ name }) => name);
+}
+
+function renderPreview(
+	config: LayoutConfig,
+	name: string,
+	displays: DisplayInfo[],
+	columns: number,
+): string[] {
+	const layout = config.layouts[name];
+	if (!layout) {
+		return [];
+	}
+	try {
+		const resolved = resolveLayoutVariant(name, layout, displays);
+		const display =
+			displays.length > 0
+				? getLayoutDisplay(name, resolved, displays)
+				: FALLBACK_DISPLAY;
+		const sections = (resolved.sections ?? []).map(
+			(section) => `section: workspace ${section.workspace}`,
+		);
+		return [
+			colorize(`workspace ${resolved.workspace} · ${resolved.layout}`, "gray"),
+			...renderLayoutPreview(resolved, display, columns),
+			...sections,
+		];
+	} catch (error) {
+		return [colorize(`Unable to preview: ${(error as Error).message}`, "red")];
+	}
+}
+
+/**
+ * Let the user pick a layout in the terminal: type to fuzzy search the
+ * names, move with the arrow keys, enter to pick and escape to cancel. The
+ * highlighted layout is previewed below the list. Drawn on stderr, so
+ * stdout stays free for --json. Resolves to null when cancelled.
+ */
+export async function pickLayout(config: LayoutConfig): Promise<string | null> {
+	const { stdin, stderr } = process;
+	if (!stdin.isTTY) {
+		throw new Error("--interactive needs a terminal");
+	}
+	const names = Object.keys(config.layouts);
+	const displays = await detectDisplays().catch((error) => {
+		debugLog("[WARN] Unable to read displays for the preview:", error);
+		return [];
+	});
+
+	let query = "";
+	let selected = 0;
+
+	function render() {
+		const matches = filterLayoutNames(names, query);
+		selected = Math.min(selected, Math.max(matches.length - 1, 0));
+		const highlighted = matches[selected];
+		const first = Math.max(0, selected - LIST_HEIGHT + 1);
+		const columns = Math.min((stderr.columns || 80) - 1, PREVIEW_COLUMNS);
+		const lines = [
+			`${colorize(">", "cyan")} ${query}`,
+			...matches
+				.slice(first, first + LIST_HEIGHT)
+				.map((name, i) =>
+					first + i === selected ? colorize(`› ${name}`, "cyan") : `  ${name}`,
+				),
+			matches.length === 0 ? colorize("  No matching layouts", "gray") : "",
+			...(highlighted !== undefined
+				? renderPreview(config, highlighted, displays, columns)
+				: []),
+			"",
+			colorize("↑/↓ select · enter apply · esc cancel", "gray"),
+		];
+		// Clear the screen and draw from the top
+		stderr.write(`\x1b[2J\x1b[H${lines.join("\n")}`);
+		return matches;
+	}
+
+	return await new Promise((resolve) => {
+		let matches = render();
+
+		function finish(name: string | null) {
+			stdin.off("data", onKey);
+			stdin.setRawMode(false);
+			stdin.pause();
+			stderr.write("\x1b[2J\x1b[H");
+			resolve(name);
+		}
+
+		function onKey(data: Buffer) {
+			const key = data.toString();
+			if (key === "\r" || key === "\n") {
+				return finish(matches[selected] ?? null);
+			}
+			if (key === "\x1b" || key === "\x03") {
+				return finish(null);
+			}
+			if (key === "\x1b[A" || key === "\x10") {
+				selected = Math.max(0, selected - 1);
+			} else if (key === "\x1b[B" || key === "\x0e") {
+				selected = Math.min(matches.length - 1, selected + 1);
+			} else if (key === "\x7f" || key === "\b") {
+				query = query.slice(0, -1);
+				selected = 0;
+			} else if (!key.startsWith("\x1b") && key >= " ") {
+				query += key;
+				selected = 0;
+			}
+			matches = render();
+		}
+
+		stdin.setRawMode(true);
+		stdin.resume();
+		stdin.on("data", onKey);
+	});
+}
@@ -0,0 +1,137 @@
+import { getTargetSizes, getTiledItems, isAccordionGroup } from "./sizes";
+import { getLayoutWindows } from "./traverse";
+import type {
+	DisplayInfo,
+	Layout,
+	LayoutItem,
+	LayoutWindow,
+	Orientation,
+} from "./types";
+
+type Box = { x: number; y: number; width: number; height: number };
+
+type PreviewBox = { box: Box; labels: string[] };
+
+// Terminal cells are about twice as tall as they are wide
+const CELL_ASPECT = 2;
+
+/**
+ * Short name of an app for the preview, e.g. "Safari" for com.apple.Safari
+ */
+function getAppName(item: LayoutWindow): string {
+	return item.bundleId.split(".").at(-1) ?? item.bundleId;
+}
+
+function getWindowNames(tree: LayoutItem[]): string[] {
+	return getTiledItems(tree).flatMap((item) =>
+		"bundleId" in item ? [getAppName(item)] : getWindowNames(item.windows),
+	);
+}
+
+/**
+ * Boxes of the layout's windows on the display, in pixels. Items are laid
+ * out like aerospace does: each takes its target size along its parent's
+ * orientation and the last one takes what is left. An accordion group is a
+ * single box listing its windows.
+ */
+function getPreviewBoxes(
+	layout: Layout,
+	display: Pick<DisplayInfo, "width" | "height">,
+): PreviewBox[] {
+	const area = { x: 0, y: 0, width: display.width, height: display.height };
+	const targets = getTargetSizes(layout, {
+		...area,
+		innerGaps: { horizontal: 0, vertical: 0 },
+	});
+	const boxes: PreviewBox[] = [];
+
+	function visit(tree: LayoutItem[], orientation: Orientation, parent: Box) {
+		const items = getTiledItems(tree);
+		const dimension = orientation === "horizontal" ? "width" : "height";
+		const axis = orientation === "horizontal" ? "x" : "y";
+		let offset = parent[axis];
+		for (const [i, item] of items.entries()) {
+			const end = parent[axis] + parent[dimension];
+			const extent =
+				i === items.length - 1
+					? end - offset
+					: Math.min(targets.get(item)?.[dimension] ?? 0, end - offset);
+			const box = { ...parent, [axis]: offset, [dimension]: extent };
+			offset += extent;
+
+			const size = "size" in item ? item.size : "";
+			if ("bundleId" in item) {
+				boxes.push({ box, labels: [getAppName(item), size] });
+			} else if (isAccordionGroup(item)) {
+				boxes.push({
+					box,
+					labels: [getWindowNames(item.windows).join(" / "), "accordion", size],
+				});
+			} else {
+				visit(item.windows, item.orientation, box);
+			}
+		}
+	}
+
+	visit(layout.windows, layout.orientation, area);
+	return boxes;
+}
+
+/**
+ * ASCII diagram of a layout's windows, `columns` wide and drawn to the
+ * display's aspect ratio. Each window is a box with its app name and size;
+ * floating windows are listed below the diagram.
+ */
+export function renderLayoutPreview(
+	layout: Layout,
+	display: Pick<DisplayInfo, "width" | "height">,
+	columns: number,
+): string[] {
+	const width = Math.max(columns, 3);
+	const height = Math.max(
+		Math.round((width * display.height) / display.width / CELL_ASPECT),
+		3,
+	);
+	const grid = Array.from({ length: height }, () =>
+		Array<string>(width).fill(" "),
+	);
+	const toColumn = (x: number) => Math.round((x / display.width) * (width - 1));
+	const toRow = (y: number) => Math.round((y / display.height) * (height - 1));
+
+	for (const { box, labels } of getPreviewBoxes(layout, display)) {
+		const left = toColumn(box.x);
+		const right = toColumn(box.x + box.width);
+		const top = toRow(box.y);
+		const bottom = toRow(box.y + box.height);
+		for (let x = left; x <= right; x++) {
+			for (const y of [top, bottom]) {
+				const row = grid[y] as string[];
+				row[x] = x === left || x === right ? "+" : "-";
+			}
+		}
+		for (let y = top + 1; y < bottom; y++) {
+			const row = grid[y] as string[];
+			row[left] = "|";
+			row[right] = "|";
+		}
+
+		// Labels go inside the borders, as far as they fit
+		const room = right - left - 1;
+		for (const [i, label] of labels.filter(Boolean).entries()) {
+			const row = grid[top + 1 + i];
+			if (top + 1 + i >= bottom || !row || room < 1) {
+				break;
+			}
+			const text = label.length > room ? label.slice(0, room) : label;
+			const start = left + 1 + Math.floor((room - text.length) / 2);
+			row.splice(start, text.length, ...text);
+		}
+	}
+
+	const lines = grid.map((row) => row.join(""));
+	const floating = getLayoutWindows(layout.windows).filter((w) => w.floating);
+	for (const item of floating) {
+		lines.push(`floating: ${getAppName(item)} (${item.anchor ?? "top-left"})`);
+	}
+	return lines;
+}
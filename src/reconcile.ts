@@ -0,0 +1,238 @@
+import {
+	getWindowsInWorkspace,
+	isWorkspaceVisible,
+	moveWindow,
+	switchToWorkspace,
+} from "./aerospace";
+import {
+	buildCapturedTree,
+	type CapturedNode,
+	type CapturedWindow,
+	captureWorkspaceWindows,
+} from "./capture";
+import { clearExistingWindow } from "./existing";
+import { colorize, debugLog, logMessage } from "./log";
+import { recordStep, recordWarning, reportStep } from "./report";
+import { getTiledItems } from "./sizes";
+import {
+	getLayoutWindows,
+	getSizeDrift,
+	resizeItem,
+	traverseTreeReposition,
+	traverseTreeResize,
+} from "./traverse";
+import type { ApplyContext, LayoutItem, Orientation } from "./types";
+import {
+	claimWindow,
+	ensureWindow,
+	getResolvedWindowId,
+	launchMissingApps,
+	pickWindow,
+	resolvedWindows,
+} from "./windows";
+
+type ShapeNode =
+	| string
+	| { orientation: Orientation; accordion: boolean; children: ShapeNode[] };
+
+/**
+ * Canonical form of a container tree, e.g. `h[42,v[7,8]]`. Aerospace collapses
+ * single-child containers and merges a container into a parent with the same
+ * orientation, so equivalent trees compare equal.
+ */
+function describeShape(node: ShapeNode): string {
+	if (typeof node === "string") {
+		return node;
+	}
+	const children = node.children
+		.map((child) =>
+			typeof child === "string" || child.children.length !== 1
+				? child
+				: (child.children[0] as ShapeNode),
+		)
+		.flatMap((child) =>
+			typeof child !== "string" &&
+			child.orientation === node.orientation &&
+			child.accordion === node.accordion
+				? child.children
+				: [child],
+		);
+	const [onlyChild] = children;
+	if (children.length === 1 && onlyChild !== undefined) {
+		return describeShape(onlyChild);
+	}
+	const prefix = `${node.accordion ? "a" : ""}${node.orientation[0]}`;
+	return `${prefix}[${children.map(describeShape).join(",")}]`;
+}
+
+function getLayoutShape(
+	tree: LayoutItem[],
+	orientation: Orientation,
+	accordion: boolean,
+): ShapeNode {
+	const children: ShapeNode[] = [];
+	for (const item of getTiledItems(tree)) {
+		if ("bundleId" in item) {
+			// Entries that couldn't be resolved aren't in the workspace either
+			const windowId = getResolvedWindowId(item);
+			if (windowId) {
+				children.push(windowId);
+			}
+		} else {
+			children.push(
+				getLayoutShape(
+					item.windows,
+					item.orientation,
+					item.layout === "accordion",
+				),
+			);
+		}
+	}
+	return { orientation, accordion, children };
+}
+
+function getCapturedShape(node: CapturedNode): ShapeNode {
+	if ("window" in node) {
+		return node.window.windowId;
+	}
+	return {
+		orientation: node.orientation,
+		accordion: node.accordion,
+		children: node.children.map(getCapturedShape),
+	};
+}
+
+/**
+ * Compare the workspace with the layout and only issue the moves, joins and
+ * resizes needed to make them match. Returns whether anything changed.
+ */
+export async function reconcileLayout(ctx: ApplyContext): Promise<boolean> {
+	const { layout } = ctx;
+	debugLog(`[INFO] Reconciling workspace ${layout.workspace}`);
+
+	// Window frames are only meaningful while the workspace is on screen
+	if (!(await isWorkspaceVisible(layout.workspace))) {
+		await switchToWorkspace(layout.workspace);
+	}
+	const workspaceWindows = await getWindowsInWorkspace(layout.workspace);
+	const workspaceWindowIds = new Set(
+		workspaceWindows.map((w) => String(w["window-id"])),
+	);
+	let current: CapturedWindow[] = [];
+	let rebuild = false;
+	try {
+		({ windows: current } = await captureWorkspaceWindows(layout.workspace));
+	} catch (error) {
+		// Without the current tree, nothing can be compared: build it from scratch
+		const message = `Unable to read the windows of workspace ${layout.workspace}, rebuilding it: ${(error as Error).message}`;
+		console.warn(colorize(`[WARN] ${message}`, "yellow"));
+		recordWarning(message);
+		rebuild = true;
+	}
+
+	// Keep the windows already in the workspace where possible
+	const entries = getLayoutWindows(layout.windows);
+	for (const item of entries.filter((w) => w.index === undefined)) {
+		const windowId = pickWindow(
+			item,
+			current
+				.filter((w) => w.bundleId === item.bundleId)
+				.map((w) => ({
+					"window-id": w.windowId,
+					"app-name": w.appName,
+					"window-title": w.title,
+				})),
+		);
+		if (windowId) {
+			claimWindow(ctx, item, windowId);
+			recordStep(ctx, item, "found");
+		}
+	}
+
+	await launchMissingApps(
+		ctx,
+		entries.filter((item) => !getResolvedWindowId(item)),
+	);
+	let moved = false;
+	for (const item of entries) {
+		if (getResolvedWindowId(item)) {
+			continue;
+		}
+		const windowId = await reportStep(ctx, item, () => ensureWindow(ctx, item));
+		if (windowId && !workspaceWindowIds.has(windowId)) {
+			debugLog(
+				`[INFO] Moving window ${item.bundleId} to workspace ${layout.workspace}`,
+			);
+			await reportStep(
+				ctx,
+				item,
+				() => moveWindow(windowId, layout.workspace),
+				"moved",
+			);
+			moved = true;
+		}
+	}
+
+	const claimed = new Set(resolvedWindows.values());
+	for (const window of workspaceWindows) {
+		const windowId = String(window["window-id"]);
+		if (
+			!claimed.has(windowId) &&
+			(await clearExistingWindow(ctx, {
+				windowId,
+				bundleId: window["app-bundle-id"],
+				appName: window["app-name"],
+				floating: window["window-layout"] === "floating",
+			}))
+		) {
+			moved = true;
+		}
+	}
+
+	// New windows land wherever aerospace puts them, so the tree needs rebuilding
+	const expectedShape = describeShape(
+		getLayoutShape(
+			layout.windows,
+			layout.orientation,
+			layout.layout.includes("accordion"),
+		),
+	);
+	// Floating windows sit outside the tiling tree
+	const floatingIds = new Set(
+		entries.filter((w) => w.floating).map((w) => getResolvedWindowId(w)),
+	);
+	// Windows kept by the existingWindows policy aren't part of the layout
+	const tiled = current.filter(
+		(w) => claimed.has(w.windowId) && !floatingIds.has(w.windowId),
+	);
+	const currentShape =
+		tiled.length > 0
+			? describeShape(getCapturedShape(buildCapturedTree(tiled)))
+			: "";
+	debugLog(
+		`[INFO] Expected tree: ${expectedShape}, current tree: ${currentShape}`,
+	);
+
+	if (rebuild || moved || expectedShape !== currentShape) {
+		await traverseTreeReposition(ctx, layout.windows);
+		await traverseTreeResize(ctx, layout.windows);
+		await switchToWorkspace(layout.workspace);
+		return true;
+	}
+
+	const mismatches = getSizeDrift(
+		ctx,
+		new Map(current.map((w) => [w.windowId, w.frame])),
+	);
+	for (const { item, parent } of mismatches) {
+		await resizeItem(ctx, item, parent);
+	}
+	if (mismatches.length > 0) {
+		return true;
+	}
+
+	logMessage(
+		`Workspace ${layout.workspace} already matches layout "${ctx.name}"`,
+	);
+	return false;
+}
@@ -0,0 +1,210 @@
+import { AerospaceUnavailableError, ConfigError } from "./errors";
+import { colorize } from "./log";
+import { type ApplyContext, ExitCode, type LayoutWindow } from "./types";
+
+type WindowStep =
+	| "found"
+	| "launched"
+	| "moved"
+	| "joined"
+	| "resized"
+	| "floated"
+	| "placed"
+	| "skipped";
+
+// What happened to one layout entry, for --json
+type WindowReport = {
+	layout: string;
+	bundleId: string;
+	windowTitle?: string;
+	windowId: string | null;
+	steps: WindowStep[];
+	// Time spent on the entry's steps
+	durationMs: number;
+	errors: string[];
+};
+
+type RunReport = {
+	status: "success" | "partial" | "failed";
+	exitCode: ExitCode;
+	dryRun: boolean;
+	session?: string;
+	layouts: string[];
+	windows: WindowReport[];
+	// Failures not tied to a window, e.g. a workspace that couldn't be moved
+	errors: string[];
+	// Optional commands that failed, e.g. flattening the workspace; they don't
+	// make the run partial
+	warnings: string[];
+	durationMs: number;
+};
+
+export const runReport: RunReport = {
+	status: "success",
+	exitCode: ExitCode.Success,
+	dryRun: false,
+	layouts: [],
+	windows: [],
+	errors: [],
+	warnings: [],
+	durationMs: 0,
+};
+const windowReports = new Map<LayoutWindow, WindowReport>();
+// Failed commands not yet attributed to a window
+const commandFailures: string[] = [];
+
+// Start a new report, for each layout applied in --watch mode
+export function resetRunReport() {
+	Object.assign(runReport, {
+		status: "success",
+		exitCode: ExitCode.Success,
+		dryRun: false,
+		session: undefined,
+		layouts: [],
+		windows: [],
+		errors: [],
+		warnings: [],
+		durationMs: 0,
+	});
+	windowReports.clear();
+	commandFailures.length = 0;
+}
+
+export function recordFailure(message: string) {
+	commandFailures.push(message);
+}
+
+export function recordWarning(message: string) {
+	runReport.warnings.push(message);
+}
+
+export function getWindowReport(
+	ctx: ApplyContext,
+	item: LayoutWindow,
+): WindowReport {
+	let entry = windowReports.get(item);
+	if (!entry) {
+		entry = {
+			layout: ctx.name,
+			bundleId: item.bundleId,
+			windowTitle: item.windowTitle,
+			windowId: null,
+			steps: [],
+			durationMs: 0,
+			errors: [],
+		};
+		windowReports.set(item, entry);
+		runReport.windows.push(entry);
+	}
+	return entry;
+}
+
+export function recordStep(
+	ctx: ApplyContext,
+	item: LayoutWindow,
+	step: WindowStep,
+) {
+	getWindowReport(ctx, item).steps.push(step);
+}
+
+export function recordWindowError(
+	ctx: ApplyContext,
+	item: LayoutWindow,
+	message: string,
+) {
+	getWindowReport(ctx, item).errors.push(message);
+}
+
+/**
+ * Run a step for a layout entry and time it. The commands that failed during
+ * the step, or the error it threw, are recorded against the entry; otherwise
+ * the step (if given) is.
+ */
+export async function reportStep<T>(
+	ctx: ApplyContext,
+	item: LayoutWindow,
+	run: () => Promise<T>,
+	step?: WindowStep,
+): Promise<T | null> {
+	const entry = getWindowReport(ctx, item);
+	const failuresBefore = commandFailures.length;
+	const startTime = Date.now();
+	try {
+		const result = await run();
+		const failures = commandFailures.splice(failuresBefore);
+		entry.errors.push(...failures);
+		if (step && failures.length === 0) {
+			entry.steps.push(step);
+		}
+		return result;
+	} catch (error) {
+		entry.errors.push(...commandFailures.splice(failuresBefore));
+		entry.errors.push(error instanceof Error ? error.message : String(error));
+		return null;
+	} finally {
+		entry.durationMs += Date.now() - startTime;
+	}
+}
+
+function getExitCode(error: unknown): ExitCode {
+	if (error instanceof ConfigError) {
+		return ExitCode.ConfigError;
+	}
+	if (error instanceof AerospaceUnavailableError) {
+		return ExitCode.AerospaceUnavailable;
+	}
+	return ExitCode.Error;
+}
+
+export function finishRunReport(
+	startTime: number,
+	dryRun: boolean,
+	error?: unknown,
+): RunReport {
+	runReport.errors.push(...commandFailures.splice(0));
+	if (error !== undefined) {
+		runReport.errors.push(
+			error instanceof Error ? error.message : String(error),
+		);
+		runReport.exitCode = getExitCode(error);
+	} else if (
+		runReport.errors.length > 0 ||
+		runReport.windows.some((w) => w.errors.length > 0)
+	) {
+		runReport.exitCode = ExitCode.PartiallyApplied;
+	}
+	runReport.status =
+		runReport.exitCode === ExitCode.Success
+			? "success"
+			: runReport.exitCode === ExitCode.PartiallyApplied
+				? "partial"
+				: "failed";
+	runReport.dryRun = dryRun;
+	runReport.durationMs = Date.now() - startTime;
+	return runReport;
+}
+
+export function printRunReport(report: RunReport, json: boolean) {
+	if (json) {
+		process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+		return;
+	}
+	if (report.status === "failed") {
+		console.error(colorize(`[ERROR] ${report.errors.at(-1)}`, "red"));
+		return;
+	}
+	// The failed commands themselves were already logged as they happened
+	if (report.status === "partial") {
+		const failed = report.windows
+			.filter((w) => w.errors.length > 0)
+			.map((w) => `${w.bundleId} (${w.layout})`);
+		console.error(
+			colorize(
+				`[WARN] The layout was only partially applied${
+					failed.length > 0 ? `, with errors for ${failed.join(", ")}` : ""
+				}. Run with --json for details.`,
+				"yellow",
+			),
+		);
+	}
+}
@@ -0,0 +1,59 @@
+import { getMonitors, moveWorkspaceToMonitor } from "./aerospace";
+import { getMonitorForDisplay } from "./displays";
+import { debugLog } from "./log";
+import type { DisplayInfo, Layout } from "./types";
+
+// One workspace to arrange
+export type LayoutPart = {
+	// Name in logs and reports, also used to keep parts from taking each other's windows
+	name: string;
+	layout: Layout;
+	// Move the workspace to the layout's display before arranging it
+	moveToDisplay: boolean;
+};
+
+/**
+ * The workspaces of a layout: the layout itself, then its sections. Parts of
+ * a layout with sections are named after their workspace, e.g. "work/2".
+ */
+export function getLayoutParts(name: string, layout: Layout): LayoutPart[] {
+	const { sections = [], ...base } = layout;
+	if (sections.length === 0) {
+		return [{ name, layout, moveToDisplay: false }];
+	}
+	// Sections handle the windows already in their workspace like the layout
+	const { existingWindows } = base;
+	return [base, ...sections].map((section) => ({
+		name: `${name}/${section.workspace}`,
+		layout:
+			existingWindows && !section.existingWindows
+				? { ...section, existingWindows }
+				: section,
+		moveToDisplay: section.display !== undefined,
+	}));
+}
+
+/**
+ * Put a workspace on the monitor showing a display. Nothing to do with a
+ * single monitor.
+ */
+export async function moveWorkspaceToDisplay(
+	workspace: string,
+	display: DisplayInfo,
+) {
+	const monitors = await getMonitors();
+	if (monitors.length < 2) {
+		return;
+	}
+	const monitor = getMonitorForDisplay(display, monitors);
+	if (!monitor) {
+		debugLog(
+			`[WARN] No monitor found for display ${display.name}, leaving workspace ${workspace} where it is`,
+		);
+		return;
+	}
+	debugLog(
+		`[INFO] Moving workspace ${workspace} to monitor ${monitor["monitor-name"]}`,
+	);
+	await moveWorkspaceToMonitor(workspace, String(monitor["monitor-id"]));
+}
@@ -0,0 +1,166 @@
+import { type Gaps, getGaps } from "./aerospace";
+import { getVisibleFrame } from "./displays";
+import { debugLog } from "./log";
+import type {
+	DisplayInfo,
+	Layout,
+	LayoutItem,
+	Orientation,
+	Size,
+	WorkArea,
+} from "./types";
+
+export type ParsedSize =
+	| { type: "ratio"; ratio: number }
+	| { type: "pixels"; pixels: number }
+	| { type: "fill" };
+
+export function parseSize(size: Size): ParsedSize {
+	if (size === "fill") {
+		return { type: "fill" };
+	}
+	if (size.endsWith("px")) {
+		return { type: "pixels", pixels: Number.parseFloat(size) };
+	}
+	if (size.endsWith("%")) {
+		return { type: "ratio", ratio: Number.parseFloat(size) / 100 };
+	}
+	const [numerator = 0, denominator = 0] = size.split("/").map(Number);
+	return { type: "ratio", ratio: numerator / denominator };
+}
+
+/**
+ * Items arranged by the tiling passes: floating windows are placed on their own
+ */
+export function getTiledItems(tree: LayoutItem[]): LayoutItem[] {
+	return tree.filter((item) => !("bundleId" in item && item.floating));
+}
+
+/**
+ * Whether an item is a group whose windows are stacked in an accordion, so
+ * each of them spans the whole group
+ */
+export function isAccordionGroup(item: LayoutItem | null): boolean {
+	return item !== null && "windows" in item && item.layout === "accordion";
+}
+
+function hasExplicitSize(item: LayoutItem): boolean {
+	return "size" in item && item.size !== "fill";
+}
+
+/**
+ * Whether the resize pass sets an item's size. Items with a size always are.
+ * Items without one (or "fill") share what is left, which aerospace gives to
+ * the last item on its own.
+ */
+export function isResized(item: LayoutItem, siblings: LayoutItem[]): boolean {
+	if (hasExplicitSize(item)) {
+		return true;
+	}
+	return siblings.some(hasExplicitSize) && item !== siblings.at(-1);
+}
+
+export type Extent = { width: number; height: number };
+
+/**
+ * Width and height of every item. Along its parent's orientation an item is
+ * sized relative to the parent container after the inner gaps between its
+ * items, and items without a size (or "fill") evenly share what sized
+ * siblings leave. Across it, and in an accordion group, an item spans its
+ * parent.
+ */
+export function getTargetSizes(
+	layout: Layout,
+	workArea: WorkArea,
+): Map<LayoutItem, Extent> {
+	const targets = new Map<LayoutItem, Extent>();
+
+	function visit(
+		tree: LayoutItem[],
+		orientation: Orientation,
+		container: Extent,
+		accordion = false,
+	) {
+		const items = getTiledItems(tree);
+		const dimension = orientation === "horizontal" ? "width" : "height";
+		const available = Math.max(
+			0,
+			container[dimension] -
+				workArea.innerGaps[orientation] * (items.length - 1),
+		);
+
+		const sizes = items.map((item) =>
+			"size" in item ? parseSize(item.size) : ({ type: "fill" } as const),
+		);
+		let used = 0;
+		let shares = 0;
+		for (const size of sizes) {
+			if (size.type === "ratio") {
+				used += size.ratio * available;
+			} else if (size.type === "pixels") {
+				used += size.pixels;
+			} else {
+				shares++;
+			}
+		}
+		const share = shares > 0 ? Math.max(0, available - used) / shares : 0;
+
+		for (const [i, item] of items.entries()) {
+			const size = sizes[i] ?? { type: "fill" };
+			const extent = {
+				width: Math.floor(container.width),
+				height: Math.floor(container.height),
+				[dimension]: Math.floor(
+					accordion
+						? container[dimension]
+						: size.type === "ratio"
+							? size.ratio * available
+							: size.type === "pixels"
+								? size.pixels
+								: share,
+				),
+			};
+			targets.set(item, extent);
+			if ("windows" in item) {
+				visit(item.windows, item.orientation, extent, isAccordionGroup(item));
+			}
+		}
+	}
+
+	visit(layout.windows, layout.orientation, workArea);
+	return targets;
+}
+
+const noGaps: Gaps = {
+	inner: { horizontal: 0, vertical: 0 },
+	outer: { left: 0, right: 0, top: 0, bottom: 0 },
+};
+
+/**
+ * Space for windows on a display. Falls back to the full display without
+ * gaps when the visible frame or the gaps can't be read.
+ */
+export async function getWorkArea(display: DisplayInfo): Promise<WorkArea> {
+	// Without NSScreen, assume the main display at the origin
+	const frame = (await getVisibleFrame(display)) ?? {
+		x: 0,
+		y: 0,
+		width: display.width,
+		height: display.height,
+	};
+	const { inner, outer } = await getGaps().catch((error) => {
+		debugLog("[WARN] Unable to read aerospace's gaps:", error);
+		return noGaps;
+	});
+	const workArea = {
+		x: frame.x + outer.left,
+		y: frame.y + outer.top,
+		width: frame.width - outer.left - outer.right,
+		height: frame.height - outer.top - outer.bottom,
+		innerGaps: inner,
+	};
+	debugLog(
+		`[INFO] Work area on ${display.name}: ${workArea.width}x${workArea.height}`,
+	);
+	return workArea;
+}
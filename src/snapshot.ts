@@ -0,0 +1,231 @@
+import { mkdir, rm } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname } from "node:path";
+import {
+	floatWindow,
+	getAllWindows,
+	getVisibleWorkspaces,
+	moveWindow,
+	switchToWorkspace,
+	tileWindow,
+} from "./aerospace";
+import {
+	buildCapturedTree,
+	type CapturedNode,
+	capturedTreeToLayout,
+	captureWorkspaceWindows,
+} from "./capture";
+import { detectDisplays, getDisplayForMonitor } from "./displays";
+import { executor } from "./exec";
+import { debugLog, logMessage } from "./log";
+import { getWorkArea } from "./sizes";
+import { traverseTreeReposition, traverseTreeResize } from "./traverse";
+import type { ApplyContext, LayoutWindow } from "./types";
+import { resolvedWindows } from "./windows";
+
+type WindowSnapshot = {
+	windowId: string;
+	bundleId: string;
+	appName: string;
+	workspace: string;
+	floating: boolean;
+};
+
+type WorkspaceSnapshot = {
+	workspace: string;
+	monitorName?: string;
+	tree: CapturedNode;
+};
+
+// Where the windows touched by the last run were before it, for --restore
+type RunSnapshot = {
+	createdAt: string;
+	focusedWorkspace: string;
+	windows: WindowSnapshot[];
+	// Only workspaces that were on screen have a known arrangement
+	workspaces: WorkspaceSnapshot[];
+};
+
+// State captured before applying, trimmed to the affected windows once done
+type PendingSnapshot = Omit<RunSnapshot, "createdAt"> & {
+	targetWorkspaces: string[];
+};
+
+function getSnapshotFilePath(): string {
+	return `${
+		process.env.XDG_STATE_HOME ?? `${homedir()}/.local/state`
+	}/aerospace-layout-manager/last-run.json`;
+}
+
+/**
+ * Record every window's workspace, and the arrangement of the workspaces on
+ * screen, before the given workspaces are rearranged.
+ */
+export async function takeSnapshot(
+	targetWorkspaces: string[],
+	focusedWorkspace: string,
+): Promise<PendingSnapshot | null> {
+	if (executor.dryRun) {
+		return null;
+	}
+
+	debugLog("[INFO] Taking a snapshot of the current windows");
+	const windows = (await getAllWindows()).map((w) => ({
+		windowId: String(w["window-id"]),
+		bundleId: w["app-bundle-id"],
+		appName: w["app-name"],
+		workspace: w.workspace,
+		floating: w["window-layout"] === "floating",
+	}));
+
+	const workspaces: WorkspaceSnapshot[] = [];
+	for (const workspace of await getVisibleWorkspaces()) {
+		try {
+			const { windows: captured, monitorName } =
+				await captureWorkspaceWindows(workspace);
+			const tileableWindows = captured.filter((w) => w.bundleId);
+			if (tileableWindows.length > 0) {
+				workspaces.push({
+					workspace,
+					monitorName,
+					tree: buildCapturedTree(tileableWindows),
+				});
+			}
+		} catch (error) {
+			debugLog(
+				`[WARN] Could not capture the arrangement of workspace ${workspace}: ${error}`,
+			);
+		}
+	}
+
+	return { focusedWorkspace, windows, workspaces, targetWorkspaces };
+}
+
+/**
+ * Write the part of the snapshot that the run changed: windows that were in
+ * the target workspaces, and windows pulled in from elsewhere.
+ */
+export async function saveSnapshot(pending: PendingSnapshot | null) {
+	if (!pending) {
+		return;
+	}
+
+	const affectedIds = new Set([
+		...pending.windows
+			.filter((w) => pending.targetWorkspaces.includes(w.workspace))
+			.map((w) => w.windowId),
+		...resolvedWindows.values(),
+	]);
+	const windows = pending.windows.filter((w) => affectedIds.has(w.windowId));
+	const affectedWorkspaces = new Set(windows.map((w) => w.workspace));
+
+	const snapshot: RunSnapshot = {
+		createdAt: new Date().toISOString(),
+		focusedWorkspace: pending.focusedWorkspace,
+		windows,
+		workspaces: pending.workspaces.filter((w) =>
+			affectedWorkspaces.has(w.workspace),
+		),
+	};
+	const path = getSnapshotFilePath();
+	await mkdir(dirname(path), { recursive: true });
+	await Bun.write(path, JSON.stringify(snapshot, null, "\t"));
+	debugLog(`[INFO] Snapshot of ${windows.length} window(s) saved`);
+}
+
+/**
+ * Drop windows that no longer exist, collapsing groups left with one child
+ */
+function pruneCapturedTree(
+	node: CapturedNode,
+	existingWindows: Set<string>,
+): CapturedNode | null {
+	if ("window" in node) {
+		return existingWindows.has(node.window.windowId) ? node : null;
+	}
+	const children = node.children
+		.map((child) => pruneCapturedTree(child, existingWindows))
+		.filter((child) => child !== null);
+	if (children.length <= 1) {
+		return children[0] ?? null;
+	}
+	return { ...node, children };
+}
+
+// put the windows touched by the last run back where they were
+export async function restoreSnapshot(stashWorkspace: string) {
+	const path = getSnapshotFilePath();
+	const file = Bun.file(path);
+	if (!(await file.exists())) {
+		throw new Error("Nothing to restore: no layout has been applied yet");
+	}
+	const snapshot: RunSnapshot = await file.json();
+	debugLog(`[INFO] Restoring snapshot from ${snapshot.createdAt}`);
+
+	const currentWindows = new Map(
+		(await getAllWindows()).map((w) => [String(w["window-id"]), w]),
+	);
+	for (const window of snapshot.windows) {
+		const current = currentWindows.get(window.windowId);
+		if (current === undefined) {
+			debugLog(
+				`[INFO] ${window.appName} (${window.windowId}) was closed, skipping`,
+			);
+			continue;
+		}
+		if (current.workspace !== window.workspace) {
+			debugLog(
+				`[INFO] Moving ${window.appName} (${window.windowId}) back to workspace ${window.workspace}`,
+			);
+			await moveWindow(window.windowId, window.workspace);
+		}
+		// E.g. windows floated by the existingWindows keep rule
+		const floating = current["window-layout"] === "floating";
+		if (window.floating === false && floating) {
+			debugLog(`[INFO] Tiling ${window.appName} (${window.windowId}) again`);
+			await tileWindow(window.windowId);
+		} else if (window.floating && !floating) {
+			debugLog(`[INFO] Floating ${window.appName} (${window.windowId}) again`);
+			await floatWindow(window.windowId);
+		}
+	}
+
+	// Rebuild the arrangement of workspaces that were on screen
+	const displays = await detectDisplays();
+	const existingWindows = new Set(currentWindows.keys());
+	for (const { workspace, monitorName, tree } of snapshot.workspaces) {
+		const prunedTree = pruneCapturedTree(tree, existingWindows);
+		if (!prunedTree) {
+			continue;
+		}
+		debugLog(`[INFO] Rearranging workspace ${workspace}`);
+		const display = getDisplayForMonitor(monitorName, displays);
+		const workArea = await getWorkArea(display);
+		const windowIds = new Map<LayoutWindow, string>();
+		const layout = capturedTreeToLayout(
+			prunedTree,
+			workspace,
+			workArea,
+			windowIds,
+		);
+		for (const [item, windowId] of windowIds) {
+			resolvedWindows.set(item, windowId);
+		}
+
+		const ctx: ApplyContext = {
+			name: `restore ${workspace}`,
+			layout,
+			display,
+			originalWorkspace: snapshot.focusedWorkspace,
+			stashWorkspace,
+			workArea,
+		};
+		await switchToWorkspace(workspace);
+		await traverseTreeReposition(ctx, layout.windows);
+		await traverseTreeResize(ctx, layout.windows);
+	}
+
+	await switchToWorkspace(snapshot.focusedWorkspace);
+	await rm(path);
+	logMessage(`Restored ${snapshot.windows.length} window(s)`);
+}
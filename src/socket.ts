@@ -0,0 +1,142 @@
+import { userInfo } from "node:os";
+import type { Socket } from "bun";
+import type { AerospaceClient, CommandResult } from "./exec";
+import { debugLog } from "./log";
+
+// What the AeroSpace server answers to each request
+type ServerAnswer = {
+	exitCode: number;
+	stdout: string;
+	stderr: string;
+};
+
+/**
+ * The socket the AeroSpace server listens on, the one its CLI talks to, unless
+ * $AEROSPACE_SOCKET names another
+ */
+export function getAerospaceSocketPath(): string {
+	return (
+		process.env.AEROSPACE_SOCKET ||
+		`/tmp/bobko.aerospace-${userInfo().username}.sock`
+	);
+}
+
+/**
+ * Sends commands over one connection to the AeroSpace server, one at a time,
+ * instead of starting the CLI for each. When the server can't be reached,
+ * commands go to `fallback` (the CLI) from then on. A command already sent
+ * is never run again: when its connection closes before the answer, it fails.
+ */
+export function createSocketClient(
+	path: string,
+	fallback: AerospaceClient,
+): AerospaceClient {
+	let connection: Socket | null = null;
+	let unavailable = false;
+	let received = "";
+	// Resolves the request waiting for an answer, with null when the
+	// connection closes first
+	let answered: ((answer: ServerAnswer | null) => void) | null = null;
+	let queue: Promise<unknown> = Promise.resolve();
+
+	async function connect(): Promise<Socket | null> {
+		if (connection || unavailable) {
+			return connection;
+		}
+		try {
+			connection = await Bun.connect({
+				unix: path,
+				socket: {
+					data(_socket, data) {
+						received += data.toString();
+						let answer: ServerAnswer;
+						try {
+							answer = JSON.parse(received);
+						} catch {
+							return; // Wait for the rest of the answer
+						}
+						received = "";
+						answered?.(answer);
+					},
+					close(socket) {
+						// Ignore a connection given up after a timeout
+						if (socket === connection) {
+							connection = null;
+							answered?.(null);
+						}
+					},
+					error(_socket, error) {
+						debugLog(`[WARN] aerospace socket error: ${error.message}`);
+					},
+				},
+			});
+			// Don't keep the process running between commands
+			connection.unref();
+			debugLog(`[INFO] Connected to aerospace at ${path}`);
+		} catch (error) {
+			debugLog(
+				`[INFO] Unable to connect to ${path}, using the aerospace CLI: ${error}`,
+			);
+			unavailable = true;
+		}
+		return connection;
+	}
+
+	// Resolves to null when the command couldn't be sent
+	async function send(
+		args: string[],
+		timeoutMs?: number,
+	): Promise<CommandResult | null> {
+		const socket = await connect();
+		if (!socket) {
+			return null;
+		}
+		received = "";
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		const answer = new Promise<ServerAnswer | "timeout" | null>((resolve) => {
+			answered = resolve;
+			if (timeoutMs) {
+				timeoutId = setTimeout(() => resolve("timeout"), timeoutMs);
+			}
+		});
+		socket.ref();
+		const written = socket.write(
+			JSON.stringify({ command: "", args, stdin: "" }),
+		);
+		const result = written > 0 ? await answer : null;
+		clearTimeout(timeoutId);
+		answered = null;
+		socket.unref();
+		if (written <= 0) {
+			return null;
+		}
+
+		if (result === "timeout") {
+			// A late answer must not be taken for the next command's
+			socket.end();
+			connection = null;
+			return { exitCode: null, stdout: "", stderr: "", timedOut: true };
+		}
+		if (!result) {
+			// The server may have run it: running it again could do it twice
+			return {
+				exitCode: null,
+				stdout: "",
+				stderr: "The connection to aerospace closed before it answered",
+				timedOut: false,
+			};
+		}
+		return { ...result, timedOut: false };
+	}
+
+	return {
+		run(args, options = {}) {
+			const result = queue.then(async () => {
+				const answer = await send(args, options.timeoutMs);
+				return answer ?? (await fallback.run(args, options));
+			});
+			queue = result.catch(() => {});
+			return result;
+		},
+	};
+}
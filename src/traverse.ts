@@ -0,0 +1,476 @@
+import {
+	flattenWorkspace,
+	focusWindow,
+	getWindowsInWorkspace,
+	joinItemWithPreviousWindow,
+	moveWindow,
+	setContainerLayout,
+	setWorkspaceLayout,
+	switchToWorkspace,
+} from "./aerospace";
+import {
+	boundingFrame,
+	captureWorkspaceWindows,
+	type WindowFrame,
+} from "./capture";
+import { execAerospaceCommand, executor } from "./exec";
+import { tileKeptWindow } from "./existing";
+import { floatWindows, placeFloatingWindows } from "./floating";
+import { colorize, debugLog } from "./log";
+import { recordFailure, recordWindowError, reportStep } from "./report";
+import {
+	type Extent,
+	getTargetSizes,
+	getTiledItems,
+	isAccordionGroup,
+	isResized,
+} from "./sizes";
+import type { ApplyContext, Layout, LayoutItem, LayoutWindow } from "./types";
+import { delay } from "./utils";
+import { waitFor } from "./wait";
+import {
+	ensureWindow,
+	getResolvedWindowId,
+	launchMissingApps,
+} from "./windows";
+
+// Windows are rarely exactly their target size, e.g. apps round their sizes
+const SIZE_TOLERANCE_PX = 32;
+// Resize passes before remaining drift is reported
+const RESIZE_ATTEMPTS = 3;
+// How long aerospace gets to list a moved window in its new workspace
+const MOVE_TIMEOUT_MS = 2000;
+
+/**
+ * Switch to the original workspace and back to the layout's, which helps
+ * aerospace settle on multi-monitor setups. Skipped when reconciling, to
+ * avoid the flicker.
+ */
+async function refocusWorkspace(ctx: ApplyContext) {
+	if (ctx.reconcile) {
+		return;
+	}
+	await switchToWorkspace(ctx.originalWorkspace);
+	await switchToWorkspace(ctx.layout.workspace);
+}
+
+/**
+ * Move a window and wait until aerospace lists it in the workspace
+ */
+async function moveWindowAndConfirm(windowId: string, workspace: string) {
+	if (!(await moveWindow(windowId, workspace)) || executor.dryRun) {
+		return;
+	}
+	const moved = await waitFor(
+		async () =>
+			(await getWindowsInWorkspace(workspace)).some(
+				(w) => String(w["window-id"]) === windowId,
+			) || null,
+		{ timeoutMs: MOVE_TIMEOUT_MS, intervalMs: 50 },
+	);
+	if (!moved) {
+		recordFailure(
+			`Window ${windowId} is not in workspace ${workspace} after ${MOVE_TIMEOUT_MS}ms`,
+		);
+	}
+}
+
+export async function traverseTreeMove(
+	ctx: ApplyContext,
+	tree: LayoutItem[],
+	depth = 0,
+) {
+	const { layout } = ctx;
+	debugLog(
+		`[INFO] traverseTreeMove: Processing ${tree.length} item(s) at depth ${depth}`,
+	);
+	if (depth === 0) {
+		await launchMissingApps(ctx, getLayoutWindows(tree));
+	}
+	for await (const [i, item] of tree.entries()) {
+		if ("bundleId" in item) {
+			debugLog(
+				`[INFO] traverseTreeMove: Processing window ${i + 1}/${tree.length} - ${item.bundleId}`,
+			);
+			const windowId = await reportStep(ctx, item, () =>
+				ensureWindow(ctx, item),
+			);
+
+			if (windowId) {
+				// Floating entries are floated when repositioning
+				if (!item.floating) {
+					await tileKeptWindow(windowId);
+				}
+				debugLog(
+					`[INFO] Moving window ${item.bundleId} to workspace ${layout.workspace}`,
+				);
+				await reportStep(
+					ctx,
+					item,
+					() => moveWindowAndConfirm(windowId, layout.workspace),
+					"moved",
+				);
+			}
+		} else if ("windows" in item) {
+			debugLog(
+				`[INFO] traverseTreeMove: Entering nested group with ${item.windows.length} windows`,
+			);
+			await traverseTreeMove(ctx, item.windows, depth + 1);
+		}
+	}
+	if (depth === 0) {
+		await refocusWorkspace(ctx);
+	}
+	debugLog(`[INFO] traverseTreeMove: Completed depth ${depth}`);
+}
+
+export async function traverseTreeReposition(
+	ctx: ApplyContext,
+	tree: LayoutItem[],
+	depth = 0,
+) {
+	const { layout } = ctx;
+	debugLog(
+		`[INFO] traverseTreeReposition: Processing ${tree.length} item(s) at depth ${depth}`,
+	);
+	if (depth === 0) {
+		await floatWindows(ctx, getFloatingWindows(tree));
+	}
+	const tiledItems = getTiledItems(tree);
+	for await (const [i, item] of tiledItems.entries()) {
+		if (depth === 0 && i === 0) {
+			// set workspace layout after moving first window
+			debugLog(`[INFO] Flattening workspace ${layout.workspace}`);
+			await flattenWorkspace(layout.workspace);
+			debugLog(`[INFO] Setting workspace layout to ${layout.layout}`);
+			const firstWindow = getFirstWindow(layout.windows);
+			await setWorkspaceLayout(
+				layout.workspace,
+				layout.layout,
+				firstWindow && getResolvedWindowId(firstWindow),
+			);
+		}
+		if ("bundleId" in item) {
+			if (depth > 0 && i > 0) {
+				// subsequent windows in a group should be joined with the previous window
+				debugLog(`[INFO] Joining window ${item.bundleId} with previous window`);
+				const windowId = getResolvedWindowId(item);
+				if (windowId) {
+					await reportStep(
+						ctx,
+						item,
+						async () => {
+							await focusWindow(windowId);
+							await joinItemWithPreviousWindow(windowId);
+						},
+						"joined",
+					);
+				}
+			}
+		} else if ("windows" in item) {
+			debugLog(
+				`[INFO] traverseTreeReposition: section - ${item.orientation}, depth: ${depth}`,
+			);
+			await traverseTreeReposition(ctx, item.windows, depth + 1);
+		}
+	}
+	if (depth === 0) {
+		// Joins rebuild containers, so group layouts are set once they're done
+		await setGroupLayouts(tree);
+	}
+	debugLog(`[INFO] traverseTreeReposition: Completed depth ${depth}`);
+}
+
+/**
+ * Set the layout of every group that has one, through a window of its own
+ */
+async function setGroupLayouts(tree: LayoutItem[]) {
+	for (const item of getTiledItems(tree)) {
+		if (!("windows" in item)) {
+			continue;
+		}
+		if (item.layout) {
+			const window = getResizeHandle(item);
+			const windowId = window && getResolvedWindowId(window);
+			if (windowId) {
+				debugLog(`[INFO] Setting group layout to ${item.layout}`);
+				await setContainerLayout(windowId, item.layout);
+			} else {
+				debugLog(
+					`[WARN] Group without a window of its own can't be set to ${item.layout}`,
+				);
+			}
+		}
+		await setGroupLayouts(item.windows);
+	}
+}
+
+export function getLayoutWindows(tree: LayoutItem[]): LayoutWindow[] {
+	return tree.flatMap((item) =>
+		"bundleId" in item ? [item] : getLayoutWindows(item.windows),
+	);
+}
+
+function getFloatingWindows(tree: LayoutItem[]): LayoutWindow[] {
+	return getLayoutWindows(tree).filter((w) => w.floating);
+}
+
+function getFirstWindow(tree: LayoutItem[]): LayoutWindow | undefined {
+	const [first] = getTiledItems(tree);
+	if (!first) {
+		return undefined;
+	}
+	return "bundleId" in first ? first : getFirstWindow(first.windows);
+}
+
+async function resizeWindow(
+	windowId: string,
+	pixels: number,
+	dimension: "width" | "height",
+	note: string,
+) {
+	debugLog(`[INFO] Resizing window ${windowId} to ${note} (${dimension})`);
+	if (!pixels) {
+		console.error(`[ERROR] Unable to determine the ${dimension} for ${note}`);
+		recordFailure(`Unable to determine the ${dimension} for ${note}`);
+		return;
+	}
+	await execAerospaceCommand(
+		["resize", "--window-id", windowId, dimension, pixels.toString()],
+		1000,
+		true, // Optional - can fail for floating windows
+		2,
+		note,
+	);
+}
+
+function getDimension(layout: Layout, item: LayoutItem) {
+	debugLog("Item:", item);
+	if ("orientation" in item) {
+		return item.orientation === "horizontal" ? "width" : "height";
+	}
+	return layout.orientation === "horizontal" ? "width" : "height";
+}
+
+export function getItemDimension(layout: Layout, parent: LayoutItem | null) {
+	if (parent) {
+		return getDimension(layout, parent);
+	}
+	return layout.orientation === "horizontal" ? "width" : "height";
+}
+
+/**
+ * Window that resizes a group along its parent's orientation, or sets its
+ * layout: one of its own windows. Aerospace nests containers with
+ * alternating orientations, so resizing a window of a nested group would
+ * resize it within that group.
+ */
+function getResizeHandle(item: LayoutItem): LayoutWindow | undefined {
+	return "bundleId" in item
+		? item
+		: getTiledItems(item.windows).find((child) => "bundleId" in child);
+}
+
+/**
+ * Resize an item along its parent's orientation (the layout's, at the root)
+ * to its target size. A group is resized through one of its windows.
+ */
+export async function resizeItem(
+	ctx: ApplyContext,
+	item: LayoutItem,
+	parent: LayoutItem | null,
+	targets = getTargetSizes(ctx.layout, ctx.workArea),
+) {
+	const dimension = getItemDimension(ctx.layout, parent);
+	const pixels = targets.get(item)?.[dimension] ?? 0;
+	const note = `${"size" in item ? item.size : "the remaining space"}: ${pixels}px`;
+
+	const window = getResizeHandle(item);
+	if (!window) {
+		debugLog(
+			`[WARN] Group without a window of its own can't be resized to ${note}`,
+		);
+		return;
+	}
+	debugLog(`[INFO] Resizing ${window.bundleId} to ${note}`);
+	const windowId = getResolvedWindowId(window);
+	if (windowId) {
+		await reportStep(
+			ctx,
+			window,
+			() => resizeWindow(windowId, pixels, dimension, note),
+			"resized",
+		);
+	}
+}
+
+type TreeEntry = {
+	item: LayoutItem;
+	parent: LayoutItem | null;
+	siblings: LayoutItem[];
+};
+
+/**
+ * Items of a tree grouped by depth, outermost first. The items of an
+ * accordion group all span it, so they aren't resized themselves.
+ */
+function getTreeLevels(
+	tree: LayoutItem[],
+	parent: LayoutItem | null = null,
+	levels: TreeEntry[][] = [],
+	depth = 0,
+): TreeEntry[][] {
+	const tiledItems = getTiledItems(tree);
+	for (const item of tiledItems) {
+		levels[depth] ??= [];
+		if (!isAccordionGroup(parent)) {
+			levels[depth].push({ item, parent, siblings: tiledItems });
+		}
+		if ("windows" in item) {
+			getTreeLevels(item.windows, item, levels, depth + 1);
+		}
+	}
+	return levels;
+}
+
+export type SizeDrift = {
+	item: LayoutItem;
+	parent: LayoutItem | null;
+	dimension: "width" | "height";
+	expected: number;
+	actual: number;
+};
+
+/**
+ * Items whose windows span more than SIZE_TOLERANCE_PX off their target along
+ * their parent's orientation. Across it, an item's size is set by its
+ * ancestors, which are checked themselves (the workspace's own size can't be
+ * changed).
+ */
+export function getSizeDrift(
+	ctx: ApplyContext,
+	frames: Map<string, WindowFrame>,
+	targets = getTargetSizes(ctx.layout, ctx.workArea),
+): SizeDrift[] {
+	const drift: SizeDrift[] = [];
+	for (const level of getTreeLevels(ctx.layout.windows)) {
+		for (const { item, parent, siblings } of level) {
+			if (!isResized(item, siblings)) {
+				continue;
+			}
+			const itemFrames = getLayoutWindows([item])
+				.map((w) => frames.get(getResolvedWindowId(w) ?? ""))
+				.filter((frame) => frame !== undefined);
+			if (itemFrames.length === 0) {
+				continue;
+			}
+			const dimension = getItemDimension(ctx.layout, parent);
+			const expected = targets.get(item)?.[dimension] ?? 0;
+			const actual = boundingFrame(itemFrames)[dimension];
+			if (Math.abs(actual - expected) > SIZE_TOLERANCE_PX) {
+				drift.push({ item, parent, dimension, expected, actual });
+			}
+		}
+	}
+	return drift;
+}
+
+/**
+ * Current drift of the workspace's windows, or null when their frames can't
+ * be read (dry runs, accordion and floating layouts, no accessibility access)
+ */
+async function measureSizeDrift(
+	ctx: ApplyContext,
+	targets: Map<LayoutItem, Extent>,
+): Promise<SizeDrift[] | null> {
+	const { layout } = ctx;
+	if (
+		executor.dryRun ||
+		layout.layout.includes("accordion") ||
+		layout.layout === "floating"
+	) {
+		return null;
+	}
+	await delay(100);
+	const { windows } = await captureWorkspaceWindows(layout.workspace).catch(
+		(error) => {
+			debugLog("[WARN] Unable to read window frames:", error);
+			return { windows: [] };
+		},
+	);
+	if (windows.length === 0) {
+		return null;
+	}
+	return getSizeDrift(
+		ctx,
+		new Map(windows.map((w) => [w.windowId, w.frame])),
+		targets,
+	);
+}
+
+/**
+ * Resize every item of the tree to its target size, outer levels first so
+ * inner ones are sized within their final container. Aerospace takes the
+ * space for a resized item from its siblings, so the result is then checked
+ * against the window frames and the pass repeated while sizes are off.
+ * Remaining drift is reported on the affected windows.
+ */
+async function resizeTiledItems(ctx: ApplyContext, tree: LayoutItem[]) {
+	const targets = getTargetSizes(ctx.layout, ctx.workArea);
+	const levels = getTreeLevels(tree);
+	let drift: SizeDrift[] | null = null;
+
+	for (let attempt = 1; attempt <= RESIZE_ATTEMPTS; attempt++) {
+		debugLog(`[INFO] Resizing tiled items, attempt ${attempt}`);
+		for (const [depth, level] of levels.entries()) {
+			for (const { item, parent, siblings } of level) {
+				if (isResized(item, siblings)) {
+					await resizeItem(ctx, item, parent, targets);
+				}
+			}
+			if (depth > 0) {
+				await refocusWorkspace(ctx);
+			}
+		}
+
+		drift = await measureSizeDrift(ctx, targets);
+		if (!drift || drift.length === 0) {
+			return;
+		}
+		debugLog(
+			`[INFO] ${drift.length} item(s) off their target size after attempt ${attempt}`,
+		);
+	}
+
+	for (const { item, dimension, expected, actual } of drift ?? []) {
+		const message = `${dimension} is ${actual}px instead of ${expected}px after ${RESIZE_ATTEMPTS} attempts`;
+		console.warn(
+			colorize(`[WARN] ${describeItem(item)}: ${message}`, "yellow"),
+		);
+		const window = getResizeHandle(item);
+		if (window) {
+			recordWindowError(ctx, window, message);
+		} else {
+			recordFailure(`${describeItem(item)}: ${message}`);
+		}
+	}
+}
+
+/**
+ * Size the tiled items, then place the floating windows
+ */
+export async function traverseTreeResize(
+	ctx: ApplyContext,
+	tree: LayoutItem[],
+) {
+	await resizeTiledItems(ctx, tree);
+	await placeFloatingWindows(ctx, getFloatingWindows(tree));
+}
+
+function describeItem(item: LayoutItem): string {
+	return "bundleId" in item
+		? item.bundleId
+		: `Group of ${getLayoutWindows(item.windows)
+				.map((w) => w.bundleId)
+				.join(", ")}`;
+}
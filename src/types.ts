@@ -0,0 +1,312 @@
+export type WorkspaceLayout =
+	| "h_tiles"
+	| "v_tiles"
+	| "h_accordion"
+	| "v_accordion"
+	| "tiles"
+	| "accordion"
+	| "horizontal"
+	| "vertical"
+	| "tiling"
+	| "floating";
+export type Orientation = "horizontal" | "vertical";
+// A fraction or percentage of the parent container, pixels, or a share of what is left
+export type Size =
+	| `${number}/${number}`
+	| `${number}%`
+	| `${number}px`
+	| "fill";
+export interface LayoutWindow {
+	bundleId: string;
+	// Apps used instead, in order, when bundleId isn't installed
+	fallback?: string[];
+	// Leave the entry out when none of its apps is installed
+	optional?: boolean;
+	// Regular expression matched against the window title
+	windowTitle?: string;
+	// Which of the app's (matching) windows to use, starting at 0
+	index?: number;
+	open?: LaunchOptions;
+	// How long to wait for the app's window, for slow starters (default: 10s)
+	launchTimeoutMs?: number;
+	// Take the window out of the tiling tree and place it at `frame`
+	floating?: boolean;
+	frame?: FloatingFrame;
+	// Corner or edge `frame` is measured from (default: top-left)
+	anchor?: Anchor;
+}
+
+// Fractions and percentages are of the display's work area
+export type Length = Exclude<Size, "fill">;
+
+export type FloatingFrame = {
+	// Offsets from the anchor
+	x?: Length;
+	y?: Length;
+	// Defaults to the window's current size
+	width?: Length;
+	height?: Length;
+};
+
+export type Anchor =
+	| "top-left"
+	| "top"
+	| "top-right"
+	| "left"
+	| "center"
+	| "right"
+	| "bottom-left"
+	| "bottom"
+	| "bottom-right";
+
+// How to launch the window, e.g. an editor on a folder or a browser on a URL
+export interface LaunchOptions {
+	args?: string[];
+	url?: string;
+	path?: string;
+	// Shell command spawned instead of `open`
+	command?: string;
+}
+
+export interface LayoutWindowWithSize extends LayoutWindow {
+	size: Size;
+}
+
+// Layout of a nested group's container; its orientation is set separately
+export type ContainerLayout = "tiles" | "accordion";
+
+interface LayoutGroup {
+	orientation: Orientation;
+	layout?: ContainerLayout;
+	windows: LayoutItem[];
+}
+
+interface LayoutGroupWithSize extends LayoutGroup {
+	size: Size;
+}
+
+export type LayoutItem =
+	| LayoutWindow
+	| LayoutGroup
+	| LayoutWindowWithSize
+	| LayoutGroupWithSize;
+
+// What to do with a window in the workspace that the layout doesn't use
+export type ExistingWindowAction = "stash" | "keep" | "close" | "minimize";
+
+// An action, or another workspace to move the window to
+export type ExistingWindowRule = ExistingWindowAction | { workspace: string };
+
+export type ExistingWindowsPolicy =
+	| ExistingWindowAction
+	| {
+			// Keep the windows of these apps and stash the others
+			stashExcept?: string[];
+			// Rules by bundle ID, e.g. chat apps sent to their own workspace
+			apps?: Record<string, ExistingWindowRule>;
+			// Rule for the other windows (default: stash)
+			default?: ExistingWindowRule;
+	  };
+
+// A param's default value, or { required: true } when it must be set with --set
+export type LayoutParam = string | { required: true };
+
+export type Layout = {
+	workspace: string;
+	layout: WorkspaceLayout;
+	orientation: Orientation;
+	windows: LayoutItem[];
+	display?: string | number | DisplayAlias;
+	// Windows already in the workspace (default: stashed)
+	existingWindows?: ExistingWindowsPolicy;
+	// Variables used as ${name} in the layout's strings, with their default
+	// values
+	params?: Record<string, LayoutParam>;
+	autoApply?: AutoApply;
+	// Alternatives to the layout for other display setups; the first match wins
+	variants?: LayoutVariant[];
+	// More workspaces arranged with the layout's own, e.g. on another monitor
+	sections?: LayoutSection[];
+};
+
+export type LayoutSection = Pick<
+	Layout,
+	| "workspace"
+	| "layout"
+	| "orientation"
+	| "windows"
+	| "display"
+	| "existingWindows"
+>;
+
+// Fields of a variant replace the layout's own when its conditions are met
+export type LayoutVariant = Partial<
+	Pick<
+		Layout,
+		| "workspace"
+		| "layout"
+		| "orientation"
+		| "windows"
+		| "display"
+		| "existingWindows"
+		| "sections"
+	>
+> & {
+	when: VariantCondition;
+};
+
+// Every condition given must hold
+export type VariantCondition = {
+	// Exact number of connected displays
+	displayCount?: number;
+	// A display (name, ID or alias) that must be connected
+	hasDisplay?: string | number | DisplayAlias;
+	// Minimum native resolution of the layout's display, in pixels, e.g.
+	// "3840x2160" for a 4K monitor whatever its scaling
+	minResolution?: `${number}x${number}`;
+};
+
+// When --watch applies the layout on its own
+export type AutoApply = {
+	// Displays (names, IDs or aliases) that must all be connected after the display set changes
+	onDisplays?: (string | number | DisplayAlias)[];
+	// A launched app: any of the layout's apps, variants included (true), or the listed bundle IDs
+	onAppLaunch?: boolean | string[];
+	// The layout's workspace was focused
+	onWorkspaceFocus?: boolean;
+};
+
+// Several layouts applied together, e.g. across workspaces and monitors
+export type Session = {
+	layouts: string[];
+	// Workspace focused at the end (default: the first layout's workspace)
+	focus?: string;
+};
+
+export type LayoutConfig = {
+	stashWorkspace: string;
+	layouts: Record<string, Layout>;
+	sessions?: Record<string, Session>;
+};
+
+// Stands for the items of a named fragment in a windows array
+export type FragmentRef = { fragment: string };
+
+// Window or group that may contain fragment references, as written in a file
+export type LayoutItemDefinition =
+	| LayoutItem
+	| FragmentRef
+	| (Omit<LayoutGroup, "windows"> & {
+			size?: Size;
+			windows: LayoutItemDefinition[];
+	  });
+
+// A layout as written in a file: with extends, fields it leaves out are
+// inherited from the named layout
+export type LayoutDefinition = Partial<
+	Omit<Layout, "windows" | "sections" | "variants">
+> & {
+	extends?: string;
+	windows?: LayoutItemDefinition[];
+	sections?: (Omit<LayoutSection, "windows"> & {
+		windows: LayoutItemDefinition[];
+	})[];
+	variants?: (Omit<LayoutVariant, "windows"> & {
+		windows?: LayoutItemDefinition[];
+	})[];
+};
+
+// Contents of a configuration file, before includes, extends and fragments
+// are resolved
+export type LayoutConfigFile = {
+	$schema?: string;
+	stashWorkspace?: string;
+	// Files (glob patterns, relative to this file) merged under this one
+	include?: string[];
+	fragments?: Record<string, LayoutItemDefinition[]>;
+	layouts?: Record<string, LayoutDefinition>;
+	sessions?: Record<string, Session>;
+};
+
+// State for applying one layout
+export type ApplyContext = {
+	name: string;
+	layout: Layout;
+	display: DisplayInfo;
+	// Workspace focused when the run started
+	originalWorkspace: string;
+	stashWorkspace: string;
+	workArea: WorkArea;
+	// Only change what differs from the layout (--reconcile)
+	reconcile?: boolean;
+};
+
+// Space for the windows of a workspace: the display's visible frame (without
+// the menu bar and Dock) minus aerospace's outer gaps
+export type WorkArea = {
+	// Top-left corner, in screen coordinates
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	// Aerospace's inner gaps between windows side by side (horizontal) and stacked (vertical)
+	innerGaps: Record<Orientation, number>;
+};
+
+export type DisplayInfo = {
+	id?: number;
+	name: string;
+	// Size in points, as windows are laid out
+	width: number;
+	height: number;
+	// Native resolution of the panel, when macOS reports it
+	pixels?: { width: number; height: number };
+	isMain: boolean;
+	isInternal?: boolean;
+};
+
+// macOS system_profiler SPDisplaysDataType reporter's values
+export enum SPDisplaysValues {
+	Yes = "spdisplays_yes",
+	No = "spdisplays_no",
+	Supported = "spdisplays_supported",
+	Internal = "spdisplays_internal",
+}
+
+export enum DisplayAlias {
+	Main = "main",
+	Secondary = "secondary",
+	External = "external",
+	Internal = "internal",
+}
+
+export type SPDisplaysDataType = {
+	_name: string;
+	spdisplays_ndrvs: {
+		_name: string;
+		"_spdisplays_display-product-id": string;
+		"_spdisplays_display-serial-number": string;
+		"_spdisplays_display-vendor-id": string;
+		"_spdisplays_display-week": string;
+		"_spdisplays_display-year": string;
+		_spdisplays_displayID: string;
+		_spdisplays_pixels: string; // Format: "width x height"
+		_spdisplays_resolution: string; // Format: "width x height @ Hz"
+		spdisplays_main: "spdisplays_yes" | "spdisplays_no";
+		spdisplays_mirror: "spdisplays_off" | "spdisplays_on";
+		spdisplays_online: "spdisplays_yes" | "spdisplays_no";
+		spdisplays_pixelresolution: string; // Format: "width x height"
+		spdisplays_resolution: string; // Format: "width x height @ Hz"
+		spdisplays_rotation: "spdisplays_supported" | "spdisplays_not_supported";
+		spdisplays_connection_type?: "spdisplays_internal" | string; // Optional as it may not be present for external displays
+	}[];
+};
+
+export enum ExitCode {
+	Success = 0,
+	Error = 1,
+	// Some windows could not be found, moved, joined or resized
+	PartiallyApplied = 2,
+	ConfigError = 3,
+	AerospaceUnavailable = 4,
+}
@@ -0,0 +1,16 @@
+import { homedir } from "node:os";
+
+export async function delay(ms: number) {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Expand a leading ~ to the home directory
+export function expandHome(path: string): string {
+	return path === "~" || path.startsWith("~/")
+		? `${homedir()}${path.slice(1)}`
+		: path;
+}
@@ -0,0 +1,351 @@
+import Ajv from "ajv";
+import layoutConfigSchema from "../layoutConfig.schema.json";
+import { ConfigError } from "./errors";
+import { colorize } from "./log";
+import { parseSize } from "./sizes";
+import type {
+	ExistingWindowRule,
+	Layout,
+	LayoutConfig,
+	LayoutItem,
+	LayoutVariant,
+} from "./types";
+
+type ValidationIssue = {
+	path: (string | number)[];
+	message: string;
+};
+
+function formatJsonPath(path: (string | number)[]): string {
+	return path
+		.map((segment) => {
+			if (typeof segment === "number") {
+				return `[${segment}]`;
+			}
+			return /^[A-Za-z_$][\w$]*$/.test(segment)
+				? `.${segment}`
+				: `[${JSON.stringify(segment)}]`;
+		})
+		.reduce((jsonPath, segment) => jsonPath + segment, "$");
+}
+
+function getSchemaIssues(config: unknown): ValidationIssue[] {
+	const validate = new Ajv({ allErrors: true, allowUnionTypes: true }).compile(
+		layoutConfigSchema,
+	);
+	if (validate(config)) {
+		return [];
+	}
+
+	return (validate.errors ?? [])
+		.filter((error) => error.keyword !== "if")
+		.map((error) => {
+			const path = error.instancePath
+				.split("/")
+				.slice(1)
+				.map((segment) => segment.replaceAll("~1", "/").replaceAll("~0", "~"))
+				.map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+			let message = error.message ?? "is invalid";
+			if (error.keyword === "additionalProperties") {
+				message += `: "${error.params.additionalProperty}"`;
+			} else if (error.keyword === "enum") {
+				message += `: ${error.params.allowedValues.join(", ")}`;
+			}
+			return { path, message };
+		});
+}
+
+// What holds a tree of windows, for messages
+type TreeOwner = "Layout" | "Section" | "Variant" | "Group";
+
+function getTreeIssues(
+	tree: LayoutItem[],
+	path: (string | number)[],
+	windowKeys: Map<string, (string | number)[]>,
+	owner: TreeOwner,
+	accordion = false,
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+
+	if (tree.length === 0) {
+		issues.push({ path, message: `${owner} has no windows` });
+	}
+
+	let totalSize = 0;
+	for (const [i, item] of tree.entries()) {
+		const itemPath = [...path, i];
+		if ("size" in item && accordion) {
+			issues.push({
+				path: [...itemPath, "size"],
+				message:
+					"size has no effect in an accordion group, where every item spans the group",
+			});
+		}
+		// Floating windows take no space in the tiling tree
+		if (
+			"size" in item &&
+			!accordion &&
+			!("bundleId" in item && item.floating)
+		) {
+			const size = parseSize(item.size);
+			if (size.type === "ratio" && !Number.isFinite(size.ratio)) {
+				issues.push({
+					path: [...itemPath, "size"],
+					message: `Size "${item.size}" has a zero denominator`,
+				});
+			} else if (size.type === "ratio") {
+				totalSize += size.ratio;
+			}
+		}
+
+		if ("bundleId" in item) {
+			if (item.windowTitle !== undefined) {
+				try {
+					new RegExp(item.windowTitle);
+				} catch (error) {
+					issues.push({
+						path: [...itemPath, "windowTitle"],
+						message: `Invalid regular expression: ${(error as Error).message}`,
+					});
+				}
+			}
+
+			if (
+				item.open?.command &&
+				(item.open.args || item.open.url || item.open.path)
+			) {
+				issues.push({
+					path: [...itemPath, "open"],
+					message: "open.command can't be combined with args, url or path",
+				});
+			}
+
+			if (item.floating && "size" in item) {
+				issues.push({
+					path: [...itemPath, "size"],
+					message: "size has no effect on a floating window, use frame",
+				});
+			}
+			if (!item.floating && (item.frame || item.anchor)) {
+				issues.push({
+					path: [...itemPath, item.frame ? "frame" : "anchor"],
+					message: "frame and anchor only apply to floating windows",
+				});
+			}
+
+			// Repeating an app is fine (each entry gets its own window),
+			// but two entries can't ask for the same window index
+			if (item.index !== undefined) {
+				const windowKey = JSON.stringify([
+					item.bundleId,
+					item.windowTitle ?? "",
+					item.index,
+				]);
+				const firstPath = windowKeys.get(windowKey);
+				if (firstPath) {
+					issues.push({
+						path: [...itemPath, "index"],
+						message: `Duplicate window: ${item.bundleId} index ${item.index} is already used at ${formatJsonPath(firstPath)}`,
+					});
+				} else {
+					windowKeys.set(windowKey, [...itemPath, "index"]);
+				}
+			}
+		} else {
+			issues.push(
+				...getTreeIssues(
+					item.windows,
+					[...itemPath, "windows"],
+					windowKeys,
+					"Group",
+					item.layout === "accordion",
+				),
+			);
+		}
+	}
+
+	// Allow for rounding in fractions such as 1/3 + 2/3
+	if (totalSize > 1 + 1e-9) {
+		issues.push({
+			path,
+			message: `Sizes of sibling items add up to ${Number(totalSize.toFixed(3))}, more than 1`,
+		});
+	}
+
+	return issues;
+}
+
+/**
+ * Rules sending existing windows to the workspace they are cleared from
+ */
+function getExistingWindowsIssues(
+	layout: Pick<Layout, "workspace" | "existingWindows">,
+	path: (string | number)[],
+): ValidationIssue[] {
+	const policy = layout.existingWindows;
+	if (!policy || typeof policy === "string") {
+		return [];
+	}
+	const issues: ValidationIssue[] = [];
+	const check = (rule: ExistingWindowRule | undefined, rulePath: string[]) => {
+		if (typeof rule === "object" && rule.workspace === layout.workspace) {
+			issues.push({
+				path: [...path, "existingWindows", ...rulePath, "workspace"],
+				message: `Existing windows would be moved to workspace "${layout.workspace}", the one they are cleared from; use "keep" instead`,
+			});
+		}
+	};
+	check(policy.default, ["default"]);
+	for (const [bundleId, rule] of Object.entries(policy.apps ?? {})) {
+		check(rule, ["apps", bundleId]);
+	}
+	return issues;
+}
+
+/**
+ * Checks for the fields a layout or variant sets; a variant's own workspace
+ * falls back to the layout's
+ */
+function getLayoutIssues(
+	layout: Omit<LayoutVariant, "when">,
+	workspace: string,
+	path: (string | number)[],
+	stashWorkspace: string,
+	owner: "Layout" | "Variant",
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	if (layout.workspace === stashWorkspace) {
+		issues.push({
+			path: [...path, "workspace"],
+			message: `Workspace "${layout.workspace}" is also the stashWorkspace, so the ${owner.toLowerCase()}'s windows would be stashed`,
+		});
+	}
+	if (layout.windows) {
+		issues.push(
+			...getTreeIssues(layout.windows, [...path, "windows"], new Map(), owner),
+		);
+	}
+	issues.push(
+		...getExistingWindowsIssues(
+			{ workspace, existingWindows: layout.existingWindows },
+			path,
+		),
+	);
+	const workspaces = new Set([workspace]);
+	for (const [i, section] of (layout.sections ?? []).entries()) {
+		const sectionPath = [...path, "sections", i];
+		if (workspaces.has(section.workspace)) {
+			issues.push({
+				path: [...sectionPath, "workspace"],
+				message: `Workspace "${section.workspace}" is already arranged by another section of the layout`,
+			});
+		}
+		workspaces.add(section.workspace);
+		if (section.workspace === stashWorkspace) {
+			issues.push({
+				path: [...sectionPath, "workspace"],
+				message: `Workspace "${section.workspace}" is also the stashWorkspace, so the section's windows would be stashed`,
+			});
+		}
+		issues.push(
+			...getTreeIssues(
+				section.windows,
+				[...sectionPath, "windows"],
+				new Map(),
+				"Section",
+			),
+			...getExistingWindowsIssues(section, sectionPath),
+		);
+	}
+	return issues;
+}
+
+function getSemanticIssues(config: LayoutConfig): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	for (const [name, layout] of Object.entries(config.layouts)) {
+		const path = ["layouts", name];
+		issues.push(
+			...getLayoutIssues(
+				layout,
+				layout.workspace,
+				path,
+				config.stashWorkspace,
+				"Layout",
+			),
+		);
+		// Variants get the same checks as the layout they replace
+		for (const [i, { when, ...variant }] of (layout.variants ?? []).entries()) {
+			issues.push(
+				...getLayoutIssues(
+					variant,
+					variant.workspace ?? layout.workspace,
+					[...path, "variants", i],
+					config.stashWorkspace,
+					"Variant",
+				),
+			);
+		}
+	}
+
+	for (const [name, session] of Object.entries(config.sessions ?? {})) {
+		for (const [i, layoutName] of session.layouts.entries()) {
+			if (!config.layouts[layoutName]) {
+				issues.push({
+					path: ["sessions", name, "layouts", i],
+					message: `Layout "${layoutName}" does not exist`,
+				});
+			}
+		}
+	}
+	return issues;
+}
+
+/**
+ * Check a config against layoutConfig.schema.json, then for problems the
+ * schema cannot express. Semantic checks only run on a schema-valid config.
+ */
+export function validateLayoutConfig(config: unknown): ValidationIssue[] {
+	const schemaIssues = getSchemaIssues(config);
+	if (schemaIssues.length > 0) {
+		return schemaIssues;
+	}
+	return getSemanticIssues(config as LayoutConfig);
+}
+
+/**
+ * Print the problems that affect the given layouts (or a session) and throw.
+ * Problems in other layouts and sessions don't block applying them.
+ */
+export function assertNoValidationIssues(
+	config: LayoutConfig,
+	layoutNames: string[],
+	sessionName?: string,
+) {
+	const issues = validateLayoutConfig(config).filter((issue) => {
+		const [section, name] = issue.path;
+		if (section === "layouts") {
+			return layoutNames.includes(String(name));
+		}
+		if (section === "sessions") {
+			return name === sessionName;
+		}
+		return true;
+	});
+	if (issues.length > 0) {
+		printValidationIssues(issues);
+		throw new ConfigError(
+			`${issues.length} problem(s) found in the configuration file`,
+		);
+	}
+}
+
+export function printValidationIssues(issues: ValidationIssue[]) {
+	for (const issue of issues) {
+		console.error(
+			colorize(
+				`[ERROR] ${formatJsonPath(issue.path)}: ${issue.message}`,
+				"red",
+			),
+		);
+	}
+}
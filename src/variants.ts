@@ -0,0 +1,53 @@
+import { getLayoutDisplay, isDisplayConnected } from "./displays";
+import { debugLog } from "./log";
+import type { DisplayInfo, Layout, VariantCondition } from "./types";
+
+function matchesCondition(
+	name: string,
+	when: VariantCondition,
+	layout: Layout,
+	displays: DisplayInfo[],
+): boolean {
+	if (
+		when.displayCount !== undefined &&
+		displays.length !== when.displayCount
+	) {
+		return false;
+	}
+	if (
+		when.hasDisplay !== undefined &&
+		!isDisplayConnected(when.hasDisplay, displays)
+	) {
+		return false;
+	}
+	if (when.minResolution) {
+		const [width = 0, height = 0] = when.minResolution.split("x").map(Number);
+		// Scaling doesn't change what the monitor is, so its pixels are compared
+		const display = getLayoutDisplay(name, layout, displays);
+		const pixels = display.pixels ?? display;
+		if (pixels.width < width || pixels.height < height) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * The layout to apply with the connected displays: the first variant whose
+ * conditions hold, merged over the layout, or the layout itself
+ */
+export function resolveLayoutVariant(
+	name: string,
+	layout: Layout,
+	displays: DisplayInfo[],
+): Layout {
+	const { variants = [], ...base } = layout;
+	for (const [i, { when, ...fields }] of variants.entries()) {
+		const candidate = { ...base, ...fields };
+		if (matchesCondition(name, when, candidate, displays)) {
+			debugLog(`[INFO] Layout ${name}: using variant ${i + 1}`);
+			return candidate;
+		}
+	}
+	return base;
+}
@@ -0,0 +1,37 @@
+import { invalidateWindowLists } from "./exec";
+import { delay } from "./utils";
+
+export type WaitOptions = {
+	timeoutMs: number;
+	// Pause after the first check, doubled after each miss up to maxIntervalMs
+	intervalMs?: number;
+	maxIntervalMs?: number;
+};
+
+/**
+ * Run `check` until it returns something other than null or undefined, with
+ * longer pauses as the wait goes on, and give up after `timeoutMs`. `check`
+ * always runs at least once, and once more at the deadline. Cached window
+ * lists are dropped after each pause, so every check sees new windows.
+ * Resolves to what it returned, or null on timeout.
+ */
+export async function waitFor<T>(
+	check: () => Promise<T | null | undefined>,
+	{ timeoutMs, intervalMs = 100, maxIntervalMs = 1000 }: WaitOptions,
+): Promise<T | null> {
+	const deadline = Date.now() + timeoutMs;
+	let interval = intervalMs;
+	for (;;) {
+		const result = await check();
+		if (result !== null && result !== undefined) {
+			return result;
+		}
+		const remaining = deadline - Date.now();
+		if (remaining <= 0) {
+			return null;
+		}
+		await delay(Math.min(interval, remaining));
+		invalidateWindowLists();
+		interval = Math.min(interval * 2, maxIntervalMs);
+	}
+}
@@ -0,0 +1,229 @@
+import { getAllWindows, getFocusedWorkspace } from "./aerospace";
+import { applyNamedLayout } from "./apply";
+import { getDisplays, isDisplayConnected } from "./displays";
+import { ConfigError } from "./errors";
+import { executor } from "./exec";
+import { colorize, debugLog, logMessage } from "./log";
+import { applyLayoutParams } from "./params";
+import { finishRunReport, printRunReport, resetRunReport } from "./report";
+import { getLayoutWindows } from "./traverse";
+import type { DisplayInfo, Layout, LayoutConfig } from "./types";
+import { delay } from "./utils";
+import { assertNoValidationIssues } from "./validation";
+import { resetResolvedWindows } from "./windows";
+
+// How often displays, windows and the focused workspace are checked
+const POLL_INTERVAL_MS = 2000;
+// Time without new triggers before a layout is applied, so displays can
+// finish connecting after docking and apps can finish opening their windows
+const DEBOUNCE_MS = 3000;
+// A layout is not applied again within this time, so it doesn't fight the user
+const COOLDOWN_MS = 30_000;
+
+// What --watch compares between two polls
+export type WatchState = {
+	displays: DisplayInfo[];
+	bundleIds: Set<string>;
+	focusedWorkspace: string;
+};
+
+export type Trigger = {
+	layoutName: string;
+	reason: string;
+};
+
+async function getWatchState(): Promise<WatchState> {
+	const [displays, windows, focusedWorkspace] = await Promise.all([
+		getDisplays(),
+		getAllWindows(),
+		getFocusedWorkspace(),
+	]);
+	return {
+		displays,
+		bundleIds: new Set(windows.map((w) => w["app-bundle-id"])),
+		focusedWorkspace,
+	};
+}
+
+function getDisplaySetKey(displays: DisplayInfo[]): string {
+	return displays
+		.map((d) => `${d.id ?? ""}:${d.name}`)
+		.sort()
+		.join(",");
+}
+
+/**
+ * Layouts whose autoApply triggers fired between two polls, with the first
+ * trigger that fired for each
+ */
+export function detectTriggers(
+	layouts: Record<string, Layout>,
+	previous: WatchState,
+	current: WatchState,
+): Trigger[] {
+	const displaysChanged =
+		getDisplaySetKey(previous.displays) !== getDisplaySetKey(current.displays);
+	const launched = [...current.bundleIds].filter(
+		(bundleId) => !previous.bundleIds.has(bundleId),
+	);
+	const workspaceFocused =
+		previous.focusedWorkspace !== current.focusedWorkspace;
+
+	const triggers: Trigger[] = [];
+	for (const [layoutName, layout] of Object.entries(layouts)) {
+		const { autoApply } = layout;
+		if (!autoApply) {
+			continue;
+		}
+
+		if (
+			displaysChanged &&
+			autoApply.onDisplays?.every((display) =>
+				isDisplayConnected(display, current.displays),
+			)
+		) {
+			triggers.push({ layoutName, reason: "displays changed" });
+			continue;
+		}
+
+		// The workspaces and windows of every variant and section
+		const trees = [layout, ...(layout.variants ?? [])].flatMap((variant) => [
+			variant,
+			...(variant.sections ?? []),
+		]);
+
+		const apps =
+			autoApply.onAppLaunch === true
+				? trees.flatMap((tree) =>
+						getLayoutWindows(tree.windows ?? []).flatMap((w) => [
+							w.bundleId,
+							...(w.fallback ?? []),
+						]),
+					)
+				: autoApply.onAppLaunch || [];
+		const launchedApp = launched.find((bundleId) => apps.includes(bundleId));
+		if (launchedApp) {
+			triggers.push({ layoutName, reason: `${launchedApp} launched` });
+			continue;
+		}
+
+		if (
+			autoApply.onWorkspaceFocus &&
+			workspaceFocused &&
+			trees.some((tree) => tree.workspace === current.focusedWorkspace)
+		) {
+			triggers.push({
+				layoutName,
+				reason: `workspace ${current.focusedWorkspace} focused`,
+			});
+		}
+	}
+	return triggers;
+}
+
+/**
+ * The layouts with autoApply triggers, with their params filled in from
+ * `params` so their workspaces can be compared with the focused one. Throws
+ * when one of them uses a variable without a value.
+ */
+export function getWatchedLayouts(
+	config: LayoutConfig,
+	params: Record<string, string>,
+): Record<string, Layout> {
+	const watched: Record<string, Layout> = {};
+	for (const [layoutName, layout] of Object.entries(config.layouts)) {
+		if (layout.autoApply) {
+			watched[layoutName] = applyLayoutParams(layoutName, layout, params);
+		}
+	}
+	return watched;
+}
+
+/**
+ * Apply a layout with --reconcile, so windows already in place are left alone,
+ * and report the outcome without stopping the watch
+ */
+async function applyWatchedLayout(
+	config: LayoutConfig,
+	layoutName: string,
+	params: Record<string, string>,
+) {
+	resetResolvedWindows();
+	resetRunReport();
+	const startTime = Date.now();
+	let error: unknown;
+	try {
+		await applyNamedLayout(config, layoutName, { reconcile: true, params });
+	} catch (e) {
+		debugLog("[ERROR]", e);
+		error = e;
+	}
+	printRunReport(finishRunReport(startTime, executor.dryRun, error), false);
+}
+
+/**
+ * Poll for display, app and workspace changes and apply the layouts whose
+ * autoApply triggers fire, with the --set values for their params, until the
+ * process is stopped
+ */
+export async function watchLayouts(
+	config: LayoutConfig,
+	params: Record<string, string> = {},
+): Promise<never> {
+	const layouts = getWatchedLayouts(config, params);
+	const watched = Object.keys(layouts);
+	if (watched.length === 0) {
+		throw new ConfigError("No layout has autoApply triggers to watch for");
+	}
+	assertNoValidationIssues(config, watched);
+	logMessage(
+		`Watching for the layouts ${watched.join(", ")}. Press Ctrl+C to stop.`,
+	);
+
+	let previous = await getWatchState();
+	// Layouts waiting for DEBOUNCE_MS without new triggers
+	const pending = new Map<string, { reason: string; firedAt: number }>();
+	const lastApplied = new Map<string, number>();
+
+	while (true) {
+		await delay(POLL_INTERVAL_MS);
+		let current: WatchState;
+		try {
+			current = await getWatchState();
+		} catch (error) {
+			// e.g. aerospace restarting: try again on the next poll
+			debugLog("[WARN] Polling failed:", error);
+			continue;
+		}
+
+		for (const trigger of detectTriggers(layouts, previous, current)) {
+			debugLog(`[INFO] Trigger for ${trigger.layoutName}: ${trigger.reason}`);
+			pending.set(trigger.layoutName, {
+				reason: trigger.reason,
+				firedAt: Date.now(),
+			});
+		}
+		previous = current;
+
+		for (const [layoutName, { reason, firedAt }] of pending) {
+			const now = Date.now();
+			if (now - firedAt < DEBOUNCE_MS) {
+				continue;
+			}
+			pending.delete(layoutName);
+			const appliedAt = lastApplied.get(layoutName);
+			if (appliedAt !== undefined && now - appliedAt < COOLDOWN_MS) {
+				debugLog(
+					`[INFO] Skipping ${layoutName}: applied less than ${COOLDOWN_MS / 1000}s ago`,
+				);
+				continue;
+			}
+
+			logMessage(colorize(`Applying ${layoutName} (${reason})`, "cyan"));
+			lastApplied.set(layoutName, now);
+			await applyWatchedLayout(config, layoutName, params);
+			// The layout's own launches and workspace switches aren't triggers
+			previous = await getWatchState().catch(() => previous);
+		}
+	}
+}
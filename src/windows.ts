@@ -0,0 +1,318 @@
+import { type AppWindow, getAppWindows } from "./aerospace";
+import { executor, runAerospaceQueryJson, runCommand, runQuery } from "./exec";
+import { keptWindows } from "./existing";
+import { colorize, debugLog } from "./log";
+import { getWindowReport, recordStep, recordWindowError } from "./report";
+import type { ApplyContext, LaunchOptions, LayoutWindow } from "./types";
+import { expandHome } from "./utils";
+import { waitFor } from "./wait";
+
+// How long to wait for an app's window, unless the entry sets launchTimeoutMs
+export const DEFAULT_LAUNCH_TIMEOUT_MS = 10_000;
+
+// Windows picked for layout entries during this run. A window is never picked twice.
+export const resolvedWindows = new Map<LayoutWindow, string>();
+// Layout that picked each window, so layouts of a session don't compete for an app
+export const windowLayouts = new Map<string, string>();
+// Apps launched up front during this run, and the error of those that failed
+const appLaunches = new Map<string, { error?: string }>();
+
+// Forget the windows picked so far, before applying another layout
+export function resetResolvedWindows() {
+	resolvedWindows.clear();
+	windowLayouts.clear();
+	appLaunches.clear();
+	keptWindows.clear();
+}
+
+export function claimWindow(
+	ctx: ApplyContext,
+	item: LayoutWindow,
+	windowId: string,
+) {
+	resolvedWindows.set(item, windowId);
+	windowLayouts.set(windowId, ctx.name);
+	getWindowReport(ctx, item).windowId = windowId;
+}
+
+export function getResolvedWindowId(item: LayoutWindow): string | null {
+	return resolvedWindows.get(item) ?? null;
+}
+
+/**
+ * Windows of the app that the entry's windowTitle matches, in aerospace's order
+ */
+function getMatchingWindows(item: LayoutWindow, windows: AppWindow[]) {
+	if (!item.windowTitle) {
+		return windows;
+	}
+	const titlePattern = new RegExp(item.windowTitle, "i");
+	return windows.filter((w) => titlePattern.test(w["window-title"]));
+}
+
+export function pickWindow(
+	item: LayoutWindow,
+	windows: AppWindow[],
+): string | null {
+	const claimed = new Set(resolvedWindows.values());
+	const matching = getMatchingWindows(item, windows);
+	const window =
+		item.index !== undefined
+			? matching[item.index]
+			: matching.find((w) => !claimed.has(String(w["window-id"])));
+	if (!window || claimed.has(String(window["window-id"]))) {
+		return null;
+	}
+	return String(window["window-id"]);
+}
+
+/**
+ * How many more windows the app needs before the entry can be given one
+ */
+function getMissingWindowCount(
+	item: LayoutWindow,
+	windows: AppWindow[],
+): number {
+	const matching = getMatchingWindows(item, windows);
+	if (item.index !== undefined) {
+		return Math.max(0, item.index + 1 - matching.length);
+	}
+	const claimed = new Set(resolvedWindows.values());
+	return matching.some((w) => !claimed.has(String(w["window-id"]))) ? 0 : 1;
+}
+
+async function openNewWindow(bundleId: string) {
+	debugLog(`[INFO] Opening a new window for ${bundleId}`);
+	await runCommand([
+		"osascript",
+		"-e",
+		`tell application id "${bundleId}" to activate`,
+		"-e",
+		'tell application "System Events" to keystroke "n" using command down',
+	]);
+}
+
+async function launchIfNotRunning(bundleId: string) {
+	const result = await runQuery([
+		"osascript",
+		"-e",
+		`application id "${bundleId}" is running`,
+	]);
+	const isRunning = result.trim() === "true";
+	if (!isRunning) {
+		await runCommand(["open", "-b", bundleId]);
+	}
+	return !isRunning;
+}
+
+async function launchWithOptions(bundleId: string, options: LaunchOptions) {
+	if (options.command) {
+		await runCommand(["/bin/sh", "-c", options.command], { detached: true });
+		return;
+	}
+
+	const command = ["open"];
+	if (options.args) {
+		// Arguments only reach a new instance of an app that is already running
+		command.push("-n");
+	}
+	command.push("-b", bundleId);
+	if (options.url) {
+		command.push(options.url);
+	}
+	if (options.path) {
+		command.push(expandHome(options.path));
+	}
+	if (options.args) {
+		command.push("--args", ...options.args);
+	}
+	await runCommand(command);
+}
+
+/**
+ * Launch an entry with `open` options and return the window it created.
+ * If no new window shows up (e.g. a URL opened as a tab, or a folder that was
+ * already open) the app's focused window is used instead.
+ */
+async function ensureLaunchedWindow(
+	item: LayoutWindow & { open: LaunchOptions },
+) {
+	const { bundleId } = item;
+	const existingWindows = new Set(
+		(await getAppWindows(bundleId)).map((w) => String(w["window-id"])),
+	);
+	debugLog(`[INFO] Launching ${bundleId} with`, item.open);
+	await launchWithOptions(bundleId, item.open);
+
+	if (executor.dryRun) {
+		return null;
+	}
+
+	const windowId = await waitFor(
+		async () => {
+			const newWindows = (await getAppWindows(bundleId)).filter(
+				(w) => !existingWindows.has(String(w["window-id"])),
+			);
+			return pickWindow({ ...item, index: undefined }, newWindows);
+		},
+		{ timeoutMs: getLaunchTimeout(item) },
+	);
+	if (windowId) {
+		debugLog(`[INFO] Launched window for ${bundleId}: ${windowId}`);
+		return windowId;
+	}
+
+	const [focused] = await runAerospaceQueryJson<
+		(AppWindow & { "app-bundle-id": string })[]
+	>([
+		"list-windows",
+		"--focused",
+		"--json",
+		"--format",
+		"%{window-id} %{app-name} %{window-title} %{app-bundle-id}",
+	]).catch(() => []);
+	if (focused?.["app-bundle-id"] === bundleId) {
+		return pickWindow({ ...item, index: undefined }, [focused]);
+	}
+	return null;
+}
+
+/**
+ * Dry-run stand-in for a window that doesn't exist yet, e.g. `<com.apple.Terminal #2>`
+ */
+function resolveWithPlaceholder(ctx: ApplyContext, item: LayoutWindow): string {
+	const sameApp = [...resolvedWindows.values()].filter((id) =>
+		id.startsWith(`<${item.bundleId}`),
+	).length;
+	const placeholder =
+		sameApp > 0 ? `<${item.bundleId} #${sameApp + 1}>` : `<${item.bundleId}>`;
+	claimWindow(ctx, item, placeholder);
+	return placeholder;
+}
+
+function getLaunchTimeout(item: LayoutWindow): number {
+	return item.launchTimeoutMs ?? DEFAULT_LAUNCH_TIMEOUT_MS;
+}
+
+/**
+ * Launch the apps of the entries that aren't running, all at once, so slow
+ * apps start side by side rather than one after another. Entries with `open`
+ * options are launched on their own, as their window is the one the launch
+ * creates.
+ */
+export async function launchMissingApps(
+	ctx: ApplyContext,
+	items: LayoutWindow[],
+) {
+	const entriesByApp = Map.groupBy(
+		items.filter((item) => !item.open && !appLaunches.has(item.bundleId)),
+		(item) => item.bundleId,
+	);
+	await Promise.all(
+		[...entriesByApp].map(async ([bundleId, entries]) => {
+			try {
+				if (await launchIfNotRunning(bundleId)) {
+					debugLog(`[INFO] Launched ${bundleId}`);
+					appLaunches.set(bundleId, {});
+					for (const item of entries) {
+						recordStep(ctx, item, "launched");
+					}
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				appLaunches.set(bundleId, { error: message });
+				for (const item of entries) {
+					recordWindowError(ctx, item, message);
+				}
+			}
+		}),
+	);
+}
+
+export async function ensureWindow(ctx: ApplyContext, item: LayoutWindow) {
+	const { bundleId } = item;
+	debugLog(`[INFO] Ensuring window for app: ${bundleId}`);
+	const launch = appLaunches.get(bundleId);
+	if (launch?.error) {
+		// Already reported by launchMissingApps
+		return null;
+	}
+	if (item.open) {
+		const windowId = await ensureLaunchedWindow({ ...item, open: item.open });
+		recordStep(ctx, item, "launched");
+		if (windowId) {
+			claimWindow(ctx, item, windowId);
+			return windowId;
+		}
+		if (executor.dryRun) {
+			return resolveWithPlaceholder(ctx, item);
+		}
+		debugLog(
+			`[WARN] No new window found for ${bundleId} after launching it, using an existing one`,
+		);
+	} else if (!launch && (await launchIfNotRunning(bundleId))) {
+		recordStep(ctx, item, "launched");
+	}
+
+	let openedWindows = 0;
+	const timeoutMs = getLaunchTimeout(item);
+	// null when the entry is skipped
+	const found = await waitFor<{ windowId: string | null }>(
+		async () => {
+			const windows = await getAppWindows(bundleId);
+			const windowId = pickWindow(item, windows);
+			if (windowId) {
+				debugLog(`[INFO] Window found for ${bundleId}: ${windowId}`);
+				claimWindow(ctx, item, windowId);
+				recordStep(ctx, item, "found");
+				return { windowId };
+			}
+
+			// Another layout of the session already placed the app: leave it there
+			// rather than opening a second window (an explicit index still does)
+			const matching = getMatchingWindows(item, windows);
+			const placedBy = matching
+				.map((w) => windowLayouts.get(String(w["window-id"])))
+				.find((name) => name && name !== ctx.name);
+			if (
+				item.index === undefined &&
+				placedBy &&
+				matching.every((w) => windowLayouts.has(String(w["window-id"])))
+			) {
+				console.warn(
+					colorize(
+						`[WARN] Skipping ${bundleId} in layout ${ctx.name}: its window is already placed by layout ${placedBy}`,
+						"yellow",
+					),
+				);
+				recordStep(ctx, item, "skipped");
+				return { windowId: null };
+			}
+
+			// The app is running, but the layout asks for more windows than it has.
+			// Windows can't be created to match a title, so only open untitled ones.
+			const missing = getMissingWindowCount(item, windows);
+			if (windows.length > 0 && !item.windowTitle && openedWindows < missing) {
+				for (; openedWindows < missing; openedWindows++) {
+					await openNewWindow(bundleId);
+				}
+				recordStep(ctx, item, "launched");
+			}
+
+			if (executor.dryRun) {
+				// The window would have been launched or opened; stand in for it in the plan
+				recordStep(ctx, item, "found");
+				return { windowId: resolveWithPlaceholder(ctx, item) };
+			}
+			debugLog(`[INFO] Waiting for a window of ${bundleId}...`);
+			return null;
+		},
+		{ timeoutMs },
+	);
+	if (found) {
+		return found.windowId;
+	}
+	debugLog(`[WARN] Window not found for ${bundleId} after ${timeoutMs}ms`);
+	recordWindowError(ctx, item, `No window found after ${timeoutMs}ms`);
+	return null;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { applyNamedLayout, applySession } from "../src/apply";
+import { ConfigError } from "../src/errors";
+import { resetRunReport, runReport } from "../src/report";
+import type { Layout, LayoutConfig } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+const safari = {
+	id: 1,
+	app: "Safari",
+	bundleId: "com.apple.Safari",
+	title: "Start Page",
+	workspace: "5",
+};
+const terminal = {
+	id: 2,
+	app: "Terminal",
+	bundleId: "com.apple.Terminal",
+	title: "zsh",
+	workspace: "5",
+};
+
+function layoutOf(workspace: string, bundleIds: string[]): Layout {
+	return {
+		workspace,
+		layout: "h_tiles",
+		orientation: "horizontal",
+		windows: bundleIds.map((bundleId) => ({ bundleId })),
+	};
+}
+
+// "morning": the browser on workspace 1, the terminal on workspace 2
+const config: LayoutConfig = {
+	stashWorkspace: "S",
+	layouts: {
+		web: layoutOf("1", ["com.apple.Safari"]),
+		code: layoutOf("2", ["com.apple.Terminal"]),
+		// Asks for the Terminal window that "code" already placed
+		both: layoutOf("3", ["com.apple.Safari", "com.apple.Terminal"]),
+	},
+	sessions: {
+		morning: { layouts: ["web", "code"], focus: "2" },
+		overlap: { layouts: ["code", "both"] },
+	},
+};
+
+describe("applySession", () => {
+	test("applies each layout in order and focuses the session's workspace", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "5",
+			windows: [safari, terminal],
+		});
+		resetRunReport();
+		await applySession(config, "morning");
+
+		expect(mac.state().windows.map((w) => [w.app, w.workspace])).toEqual([
+			["Safari", "1"],
+			["Terminal", "2"],
+		]);
+		expect(mac.state().focusedWorkspace).toBe("2");
+		expect(runReport).toMatchObject({
+			session: "morning",
+			layouts: ["web", "code"],
+		});
+	});
+
+	test("leaves a window placed by an earlier layout where it is", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "5",
+			windows: [safari, terminal],
+		});
+		resetRunReport();
+		await applySession(config, "overlap");
+
+		expect(mac.state().windows.map((w) => [w.app, w.workspace])).toEqual([
+			["Safari", "3"],
+			["Terminal", "2"],
+		]);
+		expect(
+			runReport.windows.map(({ layout, bundleId, steps }) => ({
+				layout,
+				bundleId,
+				skipped: steps.includes("skipped"),
+			})),
+		).toEqual([
+			{ layout: "code", bundleId: "com.apple.Terminal", skipped: false },
+			{ layout: "both", bundleId: "com.apple.Safari", skipped: false },
+			{ layout: "both", bundleId: "com.apple.Terminal", skipped: true },
+		]);
+		// The first layout's workspace, as the session has no focus
+		expect(mac.state().focusedWorkspace).toBe("2");
+	});
+
+	test("rejects an unknown session", async () => {
+		useFakeMac({ focusedWorkspace: "5", windows: [] });
+		await expect(applySession(config, "evening")).rejects.toThrow(
+			new ConfigError("Session not found: evening"),
+		);
+	});
+});
+
+describe("applyNamedLayout", () => {
+	test("rejects an unknown layout", async () => {
+		useFakeMac({ focusedWorkspace: "5", windows: [] });
+		await expect(applyNamedLayout(config, "mail")).rejects.toThrow(
+			new ConfigError("Layout not found: mail"),
+		);
+	});
+});
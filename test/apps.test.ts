@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { resolveLayoutApps } from "../src/apps";
+import type { Layout } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+const installed = {
+	"com.apple.Terminal": { app: "Terminal", titles: ["zsh"] },
+	"com.apple.Safari": { app: "Safari", titles: ["Start Page"] },
+};
+
+describe("resolveLayoutApps", () => {
+	test("leaves a layout without optional or fallback apps as is", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [], installed });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [{ bundleId: "com.apple.Safari" }],
+		};
+		expect(await resolveLayoutApps(layout)).toBe(layout);
+		expect(mac.calls()).toEqual([]);
+	});
+
+	test("uses the first fallback that is installed", async () => {
+		useFakeMac({ focusedWorkspace: "1", windows: [], installed });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{
+					bundleId: "com.googlecode.iterm2",
+					fallback: ["dev.warp.Warp-Stable", "com.apple.Terminal"],
+				},
+				{
+					bundleId: "company.thebrowser.Browser",
+					fallback: ["com.apple.Safari"],
+				},
+			],
+		};
+		expect((await resolveLayoutApps(layout)).windows).toEqual([
+			{
+				bundleId: "com.apple.Terminal",
+				fallback: ["dev.warp.Warp-Stable", "com.apple.Terminal"],
+			},
+			{ bundleId: "com.apple.Safari", fallback: ["com.apple.Safari"] },
+		]);
+	});
+
+	test("drops missing optional windows and rescales their siblings", async () => {
+		useFakeMac({ focusedWorkspace: "1", windows: [], installed });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.apple.Safari", size: "1/2" },
+				{
+					orientation: "vertical",
+					size: "1/4",
+					windows: [{ bundleId: "us.zoom.xos", optional: true }],
+				},
+				{ bundleId: "com.apple.Terminal" },
+			],
+		};
+		// Safari keeps twice the width of Terminal
+		expect((await resolveLayoutApps(layout)).windows).toEqual([
+			{ bundleId: "com.apple.Safari", size: "66.67%" },
+			{ bundleId: "com.apple.Terminal" },
+		]);
+	});
+
+	test("keeps a required window even when no app is installed", async () => {
+		useFakeMac({ focusedWorkspace: "1", windows: [], installed });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [{ bundleId: "us.zoom.xos", fallback: ["com.microsoft.teams"] }],
+		};
+		expect((await resolveLayoutApps(layout)).windows).toEqual(layout.windows);
+	});
+});
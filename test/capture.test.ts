@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type WindowFrame,
+	buildCapturedTree,
+	capturedTreeToLayout,
+	saveWorkspaceLayout,
+} from "../src/capture";
+import type { WorkArea } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+const workArea: WorkArea = {
+	x: 0,
+	y: 0,
+	width: 1600,
+	height: 1000,
+	innerGaps: { horizontal: 0, vertical: 0 },
+};
+
+function window(id: number, bundleId: string, frame: WindowFrame) {
+	return {
+		windowId: String(id),
+		bundleId,
+		appName: bundleId,
+		title: "",
+		frame,
+	};
+}
+
+describe("capturedTreeToLayout", () => {
+	test("sizes nested windows relative to their group", () => {
+		// A over B on the left half; C|D in the top-right quarter, E below them
+		const tree = buildCapturedTree([
+			window(1, "a", { x: 0, y: 0, width: 800, height: 500 }),
+			window(2, "b", { x: 0, y: 500, width: 800, height: 500 }),
+			window(3, "c", { x: 800, y: 0, width: 400, height: 750 }),
+			window(4, "d", { x: 1200, y: 0, width: 400, height: 750 }),
+			window(5, "e", { x: 800, y: 750, width: 800, height: 250 }),
+		]);
+
+		expect(capturedTreeToLayout(tree, "1", workArea)).toEqual({
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{
+					orientation: "vertical",
+					size: "1/2",
+					windows: [
+						{ bundleId: "a", size: "1/2" },
+						{ bundleId: "b", size: "1/2" },
+					],
+				},
+				{
+					orientation: "vertical",
+					size: "1/2",
+					windows: [
+						{
+							orientation: "horizontal",
+							size: "3/4",
+							windows: [
+								{ bundleId: "c", size: "1/2" },
+								{ bundleId: "d", size: "1/2" },
+							],
+						},
+						{ bundleId: "e", size: "1/4" },
+					],
+				},
+			],
+		});
+	});
+
+	test("leaves the inner gaps out of the sizes", () => {
+		const tree = buildCapturedTree([
+			window(1, "a", { x: 0, y: 0, width: 1000, height: 1000 }),
+			window(2, "b", { x: 1100, y: 0, width: 500, height: 1000 }),
+		]);
+		const layout = capturedTreeToLayout(tree, "1", {
+			...workArea,
+			innerGaps: { horizontal: 100, vertical: 0 },
+		});
+
+		expect(layout.windows).toEqual([
+			{ bundleId: "a", size: "2/3" },
+			{ bundleId: "b", size: "1/3" },
+		]);
+	});
+});
+
+describe("saveWorkspaceLayout", () => {
+	// Safari on two thirds of the built-in display, Terminal on the rest
+	const windows = [
+		{
+			id: 1,
+			app: "Safari",
+			bundleId: "com.apple.Safari",
+			title: "Start Page",
+			workspace: "2",
+			frame: { x: 0, y: 0, width: 1008, height: 982 },
+		},
+		{
+			id: 2,
+			app: "Terminal",
+			bundleId: "com.apple.Terminal",
+			title: "zsh",
+			workspace: "2",
+			frame: { x: 1008, y: 0, width: 504, height: 982 },
+		},
+	];
+
+	test("adds the workspace's windows to the config file as a layout", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows });
+		const path = join(mkdtempSync(join(tmpdir(), "capture-")), "layouts.json");
+		writeFileSync(
+			path,
+			JSON.stringify({
+				$schema: "./layoutConfig.schema.json",
+				stashWorkspace: "9",
+				layouts: { mail: { workspace: "3" } },
+			}),
+		);
+
+		await saveWorkspaceLayout(path, "web", "2");
+
+		expect(JSON.parse(readFileSync(path, "utf8"))).toEqual({
+			$schema: "./layoutConfig.schema.json",
+			stashWorkspace: "9",
+			layouts: {
+				mail: { workspace: "3" },
+				web: {
+					workspace: "2",
+					layout: "h_tiles",
+					orientation: "horizontal",
+					windows: [
+						{ bundleId: "com.apple.Safari", size: "2/3" },
+						{ bundleId: "com.apple.Terminal", size: "1/3" },
+					],
+				},
+			},
+		});
+		// Shown for its frames, then the focused workspace is back
+		expect(
+			mac.aerospaceCalls().filter((c) => c.startsWith("workspace ")),
+		).toEqual(["workspace 2", "workspace 1"]);
+	});
+
+	test("fails on a workspace without windows", async () => {
+		useFakeMac({ focusedWorkspace: "1", windows });
+		const path = join(mkdtempSync(join(tmpdir(), "capture-")), "layouts.json");
+
+		await expect(saveWorkspaceLayout(path, "empty", "4")).rejects.toThrow(
+			"No windows found in workspace 4",
+		);
+	});
+});
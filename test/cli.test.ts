@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FakeState } from "./fixtures/fake-cli";
+import { useFakeMac } from "./helpers";
+
+const indexPath = join(import.meta.dir, "..", "index.ts");
+
+const safari = {
+	id: 1,
+	app: "Safari",
+	bundleId: "com.apple.Safari",
+	title: "Start Page",
+	workspace: "3",
+};
+
+function writeConfig(): string {
+	const path = join(mkdtempSync(join(tmpdir(), "cli-")), "layouts.json");
+	writeFileSync(
+		path,
+		JSON.stringify({
+			stashWorkspace: "S",
+			layouts: {
+				web: {
+					workspace: "1",
+					layout: "h_tiles",
+					orientation: "horizontal",
+					windows: [{ bundleId: "com.apple.Safari" }],
+				},
+				// WebStorm isn't installed on the fake Mac
+				code: {
+					workspace: "2",
+					layout: "h_tiles",
+					orientation: "horizontal",
+					windows: [
+						{ bundleId: "com.apple.Safari" },
+						{ bundleId: "com.jetbrains.WebStorm" },
+					],
+				},
+				broken: {
+					workspace: "3",
+					layout: "h_tiles",
+					orientation: "horizontal",
+					windows: [],
+				},
+			},
+		}),
+	);
+	return path;
+}
+
+// Run the CLI against the fake tools
+async function run(
+	args: string[],
+	state: FakeState = { focusedWorkspace: "1", windows: [safari] },
+) {
+	const { env } = useFakeMac(state);
+	const proc = Bun.spawn([process.execPath, indexPath, ...args], {
+		// No server there: every aerospace command goes to the fake CLI
+		env: { ...env, AEROSPACE_SOCKET: join(tmpdir(), "no-aerospace.sock") },
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	const [exitCode, stdout, stderr] = await Promise.all([
+		proc.exited,
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+	]);
+	return { exitCode, stdout, stderr };
+}
+
+describe("exit codes", () => {
+	test("0 when the layout is applied", async () => {
+		const { exitCode, stdout } = await run([
+			"-c",
+			writeConfig(),
+			"--json",
+			"web",
+		]);
+		expect(exitCode).toBe(0);
+		expect(JSON.parse(stdout)).toMatchObject({
+			status: "success",
+			exitCode: 0,
+			layouts: ["web"],
+		});
+	}, 20_000);
+
+	test("2 when a window can't be placed", async () => {
+		const { exitCode, stdout } = await run([
+			"-c",
+			writeConfig(),
+			"--json",
+			"code",
+		]);
+		expect(exitCode).toBe(2);
+		expect(JSON.parse(stdout)).toMatchObject({
+			status: "partial",
+			exitCode: 2,
+		});
+	}, 20_000);
+
+	test("3 for a missing config file", async () => {
+		const { exitCode, stderr } = await run([
+			"-c",
+			join(tmpdir(), "missing-layouts.json"),
+			"--validate",
+		]);
+		expect(exitCode).toBe(3);
+		expect(stderr).toContain("Config file not found");
+	});
+
+	test("3 with a JSON report for a config error under --json", async () => {
+		const { exitCode, stdout } = await run([
+			"-c",
+			join(tmpdir(), "missing-layouts.json"),
+			"--json",
+			"web",
+		]);
+		expect(exitCode).toBe(3);
+		expect(JSON.parse(stdout)).toMatchObject({
+			status: "failed",
+			exitCode: 3,
+			errors: [expect.stringContaining("Config file not found")],
+		});
+	});
+
+	test("3 for a broken layout, even with aerospace down", async () => {
+		const { exitCode, stderr } = await run(["-c", writeConfig(), "broken"], {
+			focusedWorkspace: "1",
+			windows: [safari],
+			fail: { "list-workspaces": 1 },
+		});
+		expect(exitCode).toBe(3);
+		expect(stderr).toContain("Layout has no windows");
+	});
+
+	test("3 for an unknown layout", async () => {
+		const { exitCode, stderr } = await run(["-c", writeConfig(), "mail"]);
+		expect(exitCode).toBe(3);
+		expect(stderr).toContain("Layout not found: mail");
+	});
+
+	test("4 when aerospace doesn't answer", async () => {
+		const { exitCode, stderr } = await run(["-c", writeConfig(), "web"], {
+			focusedWorkspace: "1",
+			windows: [safari],
+			fail: { "list-workspaces": 1 },
+		});
+		expect(exitCode).toBe(4);
+		expect(stderr).toContain("Unable to reach aerospace");
+	});
+});
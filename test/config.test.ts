@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { loadLayoutConfig, resolveLayoutConfig } from "../src/config";
+import { getConfigFormat, stringifyConfig } from "../src/formats";
+import type { Layout, LayoutConfigFile } from "../src/types";
+
+// Write the files to a new directory and return the path of the first one
+function writeConfigFiles(files: Record<string, object>): string {
+	const dir = mkdtempSync(join(tmpdir(), "aerospace-layout-manager-"));
+	for (const [name, content] of Object.entries(files)) {
+		mkdirSync(dirname(join(dir, name)), { recursive: true });
+		writeFileSync(
+			join(dir, name),
+			stringifyConfig(content, getConfigFormat(name)),
+		);
+	}
+	return join(dir, Object.keys(files)[0] ?? "");
+}
+
+const base: Layout = {
+	workspace: "1",
+	layout: "h_tiles",
+	orientation: "horizontal",
+	windows: [{ bundleId: "com.apple.Safari" }],
+};
+
+describe("loadLayoutConfig", () => {
+	test("merges included files under the including one", async () => {
+		const path = writeConfigFiles({
+			"layouts.json": {
+				include: ["layouts.d/*.json"],
+				layouts: { web: { ...base, workspace: "2" } },
+			},
+			"layouts.d/shared.json": {
+				stashWorkspace: "X",
+				layouts: { web: base, chat: { ...base, workspace: "3" } },
+				sessions: { all: { layouts: ["web", "chat"] } },
+			},
+		});
+
+		const config = await loadLayoutConfig(path);
+		expect(config.stashWorkspace).toBe("X");
+		expect(config.layouts.web?.workspace).toBe("2");
+		expect(config.layouts.chat?.workspace).toBe("3");
+		expect(config.sessions).toEqual({ all: { layouts: ["web", "chat"] } });
+	});
+
+	test("reads each file in the format of its extension", async () => {
+		const path = writeConfigFiles({
+			"layouts.toml": {
+				include: ["shared.yaml"],
+				layouts: { web: { extends: "base", workspace: "2" } },
+			},
+			"shared.yaml": { layouts: { base } },
+		});
+
+		const config = await loadLayoutConfig(path);
+		expect(config.layouts.web).toEqual({ ...base, workspace: "2" });
+	});
+
+	test("rejects a config file that doesn't exist", async () => {
+		const path = join(mkdtempSync(join(tmpdir(), "config-")), "layouts.json");
+		await expect(loadLayoutConfig(path)).rejects.toThrow(
+			`Config file not found: ${path}`,
+		);
+	});
+
+	test("rejects a missing file and an include cycle", async () => {
+		const missing = writeConfigFiles({
+			"layouts.json": { include: ["shared.json"], layouts: {} },
+		});
+		await expect(loadLayoutConfig(missing)).rejects.toThrow(
+			"included file not found: shared.json",
+		);
+
+		const cycle = writeConfigFiles({
+			"layouts.json": { include: ["other.json"] },
+			"other.json": { include: ["layouts.json"] },
+		});
+		await expect(loadLayoutConfig(cycle)).rejects.toThrow("Include cycle");
+	});
+});
+
+describe("resolveLayoutConfig", () => {
+	test("fills in the fields a layout leaves out from the one it extends", () => {
+		const config = resolveLayoutConfig({
+			layouts: {
+				base,
+				docked: { extends: "base", display: "external" },
+				second: { extends: "docked", workspace: "2" },
+			},
+		});
+		expect(config.layouts.second).toEqual({
+			...base,
+			display: "external",
+			workspace: "2",
+		});
+		expect(config.layouts.second?.windows[0]).not.toBe(
+			config.layouts.base?.windows[0],
+		);
+	});
+
+	test("rejects an inheritance cycle", () => {
+		expect(() =>
+			resolveLayoutConfig({
+				layouts: { a: { extends: "b" }, b: { extends: "a" } },
+			}),
+		).toThrow("Layout inheritance cycle: a -> b -> a");
+	});
+
+	test("expands fragments in windows, groups, sections and variants", () => {
+		const file: LayoutConfigFile = {
+			fragments: {
+				terminal: [{ bundleId: "com.apple.Terminal" }],
+				dev: [
+					{ bundleId: "com.apple.Safari" },
+					{ orientation: "vertical", windows: [{ fragment: "terminal" }] },
+				],
+			},
+			layouts: {
+				work: {
+					...base,
+					windows: [{ fragment: "dev" }, { fragment: "terminal" }],
+					sections: [{ ...base, windows: [{ fragment: "terminal" }] }],
+					variants: [
+						{ when: { displayCount: 1 }, windows: [{ fragment: "terminal" }] },
+					],
+				},
+			},
+		};
+		const work = resolveLayoutConfig(file).layouts.work;
+		expect(work?.windows).toEqual([
+			{ bundleId: "com.apple.Safari" },
+			{
+				orientation: "vertical",
+				windows: [{ bundleId: "com.apple.Terminal" }],
+			},
+			{ bundleId: "com.apple.Terminal" },
+		]);
+		expect(work?.sections?.[0]?.windows).toEqual([
+			{ bundleId: "com.apple.Terminal" },
+		]);
+		expect(work?.variants?.[0]?.windows).toEqual([
+			{ bundleId: "com.apple.Terminal" },
+		]);
+		// Each reference is a window entry of its own
+		expect(work?.windows[2]).not.toBe(work?.sections?.[0]?.windows[0]);
+	});
+});
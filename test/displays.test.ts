@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { getDisplayByAlias, getDisplays, selectDisplay } from "../src/displays";
+import { DisplayAlias, type DisplayInfo, type Layout } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+async function loadDisplays(fixture: string): Promise<DisplayInfo[]> {
+	useFakeMac({ focusedWorkspace: "1", windows: [], displays: fixture });
+	return await getDisplays();
+}
+
+function layoutOn(display: Layout["display"]): Layout {
+	return {
+		workspace: "1",
+		layout: "h_tiles",
+		orientation: "horizontal",
+		windows: [],
+		display,
+	};
+}
+
+describe("getDisplays", () => {
+	test("reads the displays reported by system_profiler", async () => {
+		expect(await loadDisplays("dual")).toEqual([
+			{
+				id: 1,
+				name: "Color LCD",
+				width: 1512,
+				height: 982,
+				pixels: { width: 3024, height: 1964 },
+				isMain: false,
+				isInternal: true,
+			},
+			{
+				id: 2,
+				name: "DELL U2723QE",
+				width: 2560,
+				height: 1440,
+				pixels: { width: 3840, height: 2160 },
+				isMain: true,
+				isInternal: false,
+			},
+		]);
+	});
+});
+
+describe("getDisplayByAlias", () => {
+	test("main is the display marked as main", async () => {
+		const displays = await loadDisplays("dual");
+		expect(getDisplayByAlias(DisplayAlias.Main, displays)?.name).toBe(
+			"DELL U2723QE",
+		);
+	});
+
+	test("secondary is the other display of two", async () => {
+		const displays = await loadDisplays("dual");
+		expect(getDisplayByAlias(DisplayAlias.Secondary, displays)?.name).toBe(
+			"Color LCD",
+		);
+	});
+
+	test("secondary falls back to the main display when there is only one", async () => {
+		const displays = await loadDisplays("single");
+		expect(getDisplayByAlias(DisplayAlias.Secondary, displays)?.name).toBe(
+			"Color LCD",
+		);
+	});
+
+	test("secondary is ambiguous with three displays", async () => {
+		const displays = await loadDisplays("triple");
+		expect(() => getDisplayByAlias(DisplayAlias.Secondary, displays)).toThrow(
+			"multiple secondary displays",
+		);
+	});
+
+	test("external is ambiguous with two external displays", async () => {
+		const displays = await loadDisplays("triple");
+		expect(() => getDisplayByAlias(DisplayAlias.External, displays)).toThrow(
+			"Multiple external displays",
+		);
+	});
+
+	test("external falls back to the main display on a laptop alone", async () => {
+		const displays = await loadDisplays("single");
+		expect(getDisplayByAlias(DisplayAlias.External, displays)?.name).toBe(
+			"Color LCD",
+		);
+	});
+
+	test("internal is the built-in display", async () => {
+		const displays = await loadDisplays("triple");
+		expect(getDisplayByAlias(DisplayAlias.Internal, displays)?.name).toBe(
+			"Color LCD",
+		);
+	});
+});
+
+describe("selectDisplay", () => {
+	test("matches a display name as a case-insensitive regular expression", async () => {
+		const displays = await loadDisplays("triple");
+		expect(selectDisplay(layoutOn("^lg"), displays).name).toBe("LG HDR 4K");
+	});
+
+	test("matches a display ID given as a number or a string", async () => {
+		const displays = await loadDisplays("triple");
+		expect(selectDisplay(layoutOn(3), displays).name).toBe("LG HDR 4K");
+		expect(selectDisplay(layoutOn("2"), displays).name).toBe("DELL U2723QE");
+	});
+
+	test("resolves aliases", async () => {
+		const displays = await loadDisplays("dual");
+		expect(selectDisplay(layoutOn("internal"), displays).name).toBe(
+			"Color LCD",
+		);
+	});
+
+	test("falls back to the main display when nothing matches", async () => {
+		const displays = await loadDisplays("dual");
+		expect(selectDisplay(layoutOn("Projector"), displays).name).toBe(
+			"DELL U2723QE",
+		);
+		expect(selectDisplay(layoutOn(42), displays).name).toBe("DELL U2723QE");
+	});
+});
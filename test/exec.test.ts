@@ -0,0 +1,203 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { getWindowsInWorkspace, moveWindow } from "../src/aerospace";
+import { applyNamedLayout } from "../src/apply";
+import {
+	cacheWindowLists,
+	createDryRunExecutor,
+	createSpawnExecutor,
+	execAerospaceCommand,
+	setExecutor,
+} from "../src/exec";
+import { setLogToStderr } from "../src/log";
+import { finishRunReport, resetRunReport } from "../src/report";
+import { ExitCode } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+const state = {
+	focusedWorkspace: "1",
+	windows: [
+		{
+			id: 1,
+			app: "Terminal",
+			bundleId: "com.apple.Terminal",
+			title: "zsh",
+			workspace: "1",
+		},
+	],
+};
+
+describe("execAerospaceCommand", () => {
+	test("runs the command once when it succeeds", async () => {
+		const mac = useFakeMac(state);
+		expect(await execAerospaceCommand(["workspace", "2"])).toBe(true);
+		expect(mac.aerospaceCalls()).toEqual(["workspace 2"]);
+		expect(mac.state().focusedWorkspace).toBe("2");
+	});
+
+	test("retries a command that timed out", async () => {
+		const mac = useFakeMac({ ...state, hang: { workspace: 1 } });
+		expect(await execAerospaceCommand(["workspace", "2"], 300)).toBe(true);
+		expect(mac.aerospaceCalls()).toEqual(["workspace 2", "workspace 2"]);
+		expect(mac.state().focusedWorkspace).toBe("2");
+	});
+
+	test("gives up after maxRetries timeouts", async () => {
+		const mac = useFakeMac({ ...state, hang: { workspace: 5 } });
+		expect(await execAerospaceCommand(["workspace", "2"], 300, false, 2)).toBe(
+			false,
+		);
+		expect(mac.aerospaceCalls()).toHaveLength(2);
+		expect(mac.state().focusedWorkspace).toBe("1");
+	});
+
+	test("does not retry an optional command that timed out", async () => {
+		const mac = useFakeMac({ ...state, hang: { "flatten-workspace-tree": 5 } });
+		expect(
+			await execAerospaceCommand(
+				["flatten-workspace-tree", "--workspace", "1"],
+				300,
+				true,
+			),
+		).toBe(true);
+		expect(mac.aerospaceCalls()).toHaveLength(1);
+	});
+
+	test("does not retry a command that failed", async () => {
+		const mac = useFakeMac({ ...state, fail: { "move-node-to-workspace": 1 } });
+		expect(
+			await execAerospaceCommand([
+				"move-node-to-workspace",
+				"--window-id",
+				"1",
+				"2",
+			]),
+		).toBe(false);
+		expect(mac.aerospaceCalls()).toHaveLength(1);
+		expect(mac.state().windows[0]?.workspace).toBe("1");
+	});
+
+	test("reports an optional command that failed as done", async () => {
+		useFakeMac({ ...state, fail: { "join-with": 1 } });
+		resetRunReport();
+		expect(
+			await execAerospaceCommand(
+				["join-with", "--window-id", "1", "left"],
+				1000,
+				true,
+			),
+		).toBe(true);
+
+		// As a warning that doesn't make the run partial
+		const report = finishRunReport(Date.now(), false);
+		expect(report.exitCode).toBe(ExitCode.Success);
+		expect(report.errors).toEqual([]);
+		expect(report.warnings).toEqual([
+			expect.stringContaining("aerospace join-with --window-id 1 left"),
+		]);
+	});
+
+	test("records a command that failed as an error", async () => {
+		useFakeMac({ ...state, fail: { "move-node-to-workspace": 1 } });
+		resetRunReport();
+		await execAerospaceCommand([
+			"move-node-to-workspace",
+			"--window-id",
+			"1",
+			"2",
+		]);
+		const report = finishRunReport(Date.now(), false);
+		expect(report.exitCode).toBe(ExitCode.PartiallyApplied);
+		expect(report.warnings).toEqual([]);
+	});
+});
+
+describe("cacheWindowLists", () => {
+	test("lists the windows once until something is moved", async () => {
+		const mac = useFakeMac(state);
+		const listed = await cacheWindowLists(async () => {
+			await getWindowsInWorkspace("1");
+			await getWindowsInWorkspace("1");
+			await moveWindow("1", "2");
+			return await getWindowsInWorkspace("1");
+		});
+		expect(listed).toEqual([]);
+		expect(
+			mac.aerospaceCalls().filter((c) => c.startsWith("list-windows")),
+		).toHaveLength(2);
+	});
+
+	test("doesn't cache outside of it", async () => {
+		const mac = useFakeMac(state);
+		await getWindowsInWorkspace("1");
+		await getWindowsInWorkspace("1");
+		expect(mac.aerospaceCalls()).toHaveLength(2);
+	});
+});
+
+describe("createDryRunExecutor", () => {
+	test("prints the commands a layout would run, without running them", async () => {
+		// Safari isn't running: its window only exists once it is launched
+		const mac = useFakeMac({
+			...state,
+			focusedWorkspace: "5",
+			installed: { "com.apple.Safari": { app: "Safari", titles: ["Start"] } },
+		});
+		setExecutor(createDryRunExecutor(createSpawnExecutor({ env: mac.env })));
+		setLogToStderr(false);
+		const plan: string[] = [];
+		const log = spyOn(console, "log").mockImplementation((line) => {
+			plan.push(Bun.stripANSI(String(line)));
+		});
+		try {
+			await applyNamedLayout(
+				{
+					stashWorkspace: "S",
+					layouts: {
+						work: {
+							workspace: "2",
+							layout: "h_tiles",
+							orientation: "horizontal",
+							windows: [
+								{ bundleId: "com.apple.Safari", size: "2/3" },
+								{ bundleId: "com.apple.Terminal", size: "1/3" },
+							],
+						},
+					},
+				},
+				"work",
+			);
+		} finally {
+			log.mockRestore();
+		}
+
+		expect(plan).toEqual([
+			"  1  aerospace workspace 5",
+			"  2  aerospace workspace 2",
+			"  3  open -b com.apple.Safari",
+			"  4  aerospace move-node-to-workspace --window-id '<com.apple.Safari>' 2",
+			"  5  aerospace move-node-to-workspace --window-id 1 2",
+			"  6  aerospace workspace 5",
+			"  7  aerospace workspace 2",
+			"  8  aerospace workspace 5",
+			"  9  aerospace workspace 2",
+			" 10  aerospace flatten-workspace-tree --workspace 2",
+			" 11  aerospace layout h_tiles --window-id '<com.apple.Safari>'",
+			" 12  aerospace workspace 5",
+			" 13  aerospace workspace 2",
+			// 2/3 and 1/3 of the 1512px wide built-in display
+			" 14  aerospace resize --window-id '<com.apple.Safari>' width 1008  # 2/3: 1008px",
+			" 15  aerospace resize --window-id 1 width 504  # 1/3: 504px",
+			" 16  aerospace workspace 5",
+			" 17  aerospace workspace 2",
+		]);
+		// Only queries reached the tools
+		expect(
+			mac.calls().filter((c) => /^(open|aerospace (?!list|config))/.test(c)),
+		).toEqual([]);
+		expect(mac.state()).toEqual({
+			...state,
+			focusedWorkspace: "5",
+			installed: expect.anything(),
+		});
+	});
+});
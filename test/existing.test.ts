@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import { applyNamedLayout } from "../src/apply";
+import { clearWorkspace, getExistingWindowRule } from "../src/existing";
+import type { ExistingWindowsPolicy, Layout } from "../src/types";
+import type { FakeWindow } from "./fixtures/fake-cli";
+import { createContext, useFakeMac } from "./helpers";
+
+const terminal: FakeWindow = {
+	id: 1,
+	app: "Terminal",
+	bundleId: "com.apple.Terminal",
+	title: "zsh",
+	workspace: "1",
+};
+const slack: FakeWindow = {
+	id: 2,
+	app: "Slack",
+	bundleId: "com.tinyspeck.slackmacgap",
+	title: "general",
+	workspace: "1",
+};
+const finder: FakeWindow = {
+	id: 3,
+	app: "Finder",
+	bundleId: "com.apple.finder",
+	title: "Downloads",
+	workspace: "1",
+};
+
+function layoutWith(existingWindows?: ExistingWindowsPolicy): Layout {
+	return {
+		workspace: "1",
+		layout: "h_tiles",
+		orientation: "horizontal",
+		windows: [{ bundleId: "com.apple.Safari" }],
+		existingWindows,
+	};
+}
+
+describe("getExistingWindowRule", () => {
+	test("stashes by default", () => {
+		expect(getExistingWindowRule(undefined, "com.apple.finder")).toBe("stash");
+		expect(getExistingWindowRule({}, "com.apple.finder")).toBe("stash");
+	});
+
+	test("applies a single action to every app", () => {
+		expect(getExistingWindowRule("keep", "com.apple.finder")).toBe("keep");
+	});
+
+	test("prefers the app's rule, then stashExcept, then the default", () => {
+		const policy: ExistingWindowsPolicy = {
+			stashExcept: ["com.apple.Terminal", "com.tinyspeck.slackmacgap"],
+			apps: { "com.tinyspeck.slackmacgap": { workspace: "9" } },
+			default: "minimize",
+		};
+		expect(getExistingWindowRule(policy, "com.tinyspeck.slackmacgap")).toEqual({
+			workspace: "9",
+		});
+		expect(getExistingWindowRule(policy, "com.apple.Terminal")).toBe("keep");
+		expect(getExistingWindowRule(policy, "com.apple.finder")).toBe("minimize");
+	});
+});
+
+describe("clearWorkspace", () => {
+	test("moves every window to the stash workspace by default", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [terminal, slack],
+		});
+		await clearWorkspace(createContext(layoutWith()));
+
+		expect(mac.state().windows.map((w) => w.workspace)).toEqual(["S", "S"]);
+	});
+
+	test("floats the windows it keeps, out of the layout's tiling tree", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [terminal, slack],
+		});
+		await clearWorkspace(createContext(layoutWith("keep")));
+
+		expect(mac.aerospaceCalls().slice(1)).toEqual([
+			"layout floating --window-id 1",
+			"layout floating --window-id 2",
+		]);
+		expect(mac.state().windows.map((w) => w.workspace)).toEqual(["1", "1"]);
+	});
+
+	test("keeps, closes and moves windows by app", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [terminal, slack, finder],
+		});
+		await clearWorkspace(
+			createContext(
+				layoutWith({
+					stashExcept: ["com.apple.Terminal"],
+					apps: {
+						"com.tinyspeck.slackmacgap": { workspace: "9" },
+						"com.apple.finder": "close",
+					},
+				}),
+			),
+		);
+
+		expect(mac.aerospaceCalls().slice(1)).toEqual([
+			// Out of the way of the layout's joins and sizes
+			"layout floating --window-id 1",
+			"move-node-to-workspace --window-id 2 9",
+			"close --window-id 3",
+		]);
+		expect(
+			mac.state().windows.map(({ id, workspace }) => ({ id, workspace })),
+		).toEqual([
+			{ id: 1, workspace: "1" },
+			{ id: 2, workspace: "9" },
+		]);
+	});
+
+	test("tiles a kept window again when the layout places it", async () => {
+		const safari: FakeWindow = {
+			id: 4,
+			app: "Safari",
+			bundleId: "com.apple.Safari",
+			title: "Start Page",
+			workspace: "3",
+		};
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [terminal, slack, safari],
+		});
+		await applyNamedLayout(
+			{
+				stashWorkspace: "S",
+				layouts: {
+					work: {
+						...layoutWith({ stashExcept: ["com.apple.Terminal"] }),
+						windows: [
+							{ bundleId: "com.apple.Safari" },
+							{ bundleId: "com.apple.Terminal" },
+						],
+					},
+				},
+			},
+			"work",
+		);
+
+		expect(
+			mac.aerospaceCalls().filter((c) => /^layout (floating|tiling)/.test(c)),
+		).toEqual(["layout floating --window-id 1", "layout tiling --window-id 1"]);
+		expect(mac.state().windows.map((w) => [w.app, w.workspace])).toEqual([
+			["Terminal", "1"],
+			["Slack", "S"],
+			["Safari", "1"],
+		]);
+	});
+});
@@ -0,0 +1,316 @@
+/**
+ * Scripted stand-in for the macOS tools the layout manager runs: aerospace,
+ * osascript, open, mdfind and system_profiler. The fake window manager's state lives
+ * in the JSON file named by $FAKE_STATE, and every call is appended to
+ * calls.log next to it.
+ */
+import {
+	appendFileSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+
+export type FakeWindow = {
+	id: number;
+	app: string;
+	bundleId: string;
+	title: string;
+	workspace: string;
+	// Position and size reported by System Events (default: none)
+	frame?: { x: number; y: number; width: number; height: number };
+	// Out of the tiling tree, after `layout floating`
+	floating?: boolean;
+};
+
+export type FakeState = {
+	focusedWorkspace: string;
+	// Workspaces on screen (default: the focused one)
+	visibleWorkspaces?: string[];
+	focusedWindowId?: number;
+	windows: FakeWindow[];
+	// Apps that `open -b` can start, with the titles of the windows they show
+	installed?: Record<string, { app: string; titles: string[] }>;
+	// Number of upcoming calls of an aerospace subcommand that hang or fail
+	hang?: Record<string, number>;
+	fail?: Record<string, number>;
+	// Window frames can't be read, e.g. without accessibility access
+	noFrames?: boolean;
+	// Canned SPDisplaysDataType fixture, from test/fixtures/displays
+	displays?: string;
+	// Names of aerospace's monitors, in order (default: the built-in display)
+	monitors?: string[];
+	// aerospace config --get gaps --json
+	gaps?: unknown;
+	// NSScreen visible frames, by screen name
+	screens?: {
+		name: string;
+		x: number;
+		y: number;
+		width: number;
+		height: number;
+	}[];
+};
+
+const statePath = process.env.FAKE_STATE ?? "";
+const lockPath = `${statePath}.lock`;
+
+// Calls made side by side, like parallel launches, change the state one at a
+// time so none of their changes is lost
+function lock() {
+	const deadline = Date.now() + 2000;
+	for (;;) {
+		try {
+			mkdirSync(lockPath);
+			return;
+		} catch {
+			if (Date.now() > deadline) {
+				return; // Left behind by a killed call
+			}
+			Bun.sleepSync(2);
+		}
+	}
+}
+
+function unlock() {
+	rmSync(lockPath, { recursive: true, force: true });
+}
+
+lock();
+process.on("exit", unlock);
+const state: FakeState = JSON.parse(readFileSync(statePath, "utf8"));
+const [tool = "", ...args] = process.argv.slice(2);
+
+appendFileSync(
+	join(dirname(statePath), "calls.log"),
+	`${JSON.stringify([tool, ...args])}\n`,
+);
+
+function save() {
+	writeFileSync(statePath, JSON.stringify(state, null, "\t"));
+}
+
+function fail(message: string): never {
+	process.stderr.write(`${message}\n`);
+	process.exit(1);
+}
+
+function option(name: string): string | undefined {
+	const i = args.indexOf(name);
+	return i === -1 ? undefined : args[i + 1];
+}
+
+function findWindow(id: string | undefined): FakeWindow {
+	const window = state.windows.find((w) => String(w.id) === id);
+	return window ?? fail(`Invalid <window-id> ${id}`);
+}
+
+function addWindow(bundleId: string, app: string, title: string) {
+	const id = Math.max(100, ...state.windows.map((w) => w.id)) + 1;
+	state.windows.push({
+		id,
+		app,
+		bundleId,
+		title,
+		workspace: state.focusedWorkspace,
+	});
+	state.focusedWindowId = id;
+}
+
+async function aerospace() {
+	const [command = ""] = args;
+	if (state.hang?.[command]) {
+		state.hang[command]--;
+		save();
+		unlock();
+		await Bun.sleep(10_000);
+	}
+	if (state.fail?.[command]) {
+		state.fail[command]--;
+		save();
+		fail(`${command} failed`);
+	}
+
+	switch (command) {
+		case "list-workspaces": {
+			const workspaces = args.includes("--focused")
+				? [state.focusedWorkspace]
+				: args.includes("--visible")
+					? (state.visibleWorkspaces ?? [state.focusedWorkspace])
+					: [...new Set(state.windows.map((w) => w.workspace))];
+			console.log(workspaces.join("\n"));
+			return;
+		}
+		case "list-windows": {
+			const workspace = option("--workspace");
+			const bundleId = option("--app-bundle-id");
+			const windows = state.windows.filter(
+				(w) =>
+					(!workspace || w.workspace === workspace) &&
+					(!bundleId || w.bundleId === bundleId) &&
+					(!args.includes("--focused") || w.id === state.focusedWindowId),
+			);
+			console.log(
+				JSON.stringify(
+					windows.map((w) => ({
+						"window-id": w.id,
+						"app-name": w.app,
+						"window-title": w.title,
+						"app-bundle-id": w.bundleId,
+						"app-pid": w.id,
+						"window-layout": w.floating ? "floating" : "h_tiles",
+						"monitor-name": "Built-in Retina Display",
+						workspace: w.workspace,
+					})),
+				),
+			);
+			return;
+		}
+		case "list-monitors": {
+			const monitors = state.monitors ?? ["Built-in Retina Display"];
+			console.log(
+				JSON.stringify(
+					monitors.map((name, i) => ({
+						"monitor-id": i + 1,
+						"monitor-name": name,
+					})),
+				),
+			);
+			return;
+		}
+		case "config":
+			if (option("--get") === "gaps") {
+				console.log(JSON.stringify(state.gaps ?? {}));
+				return;
+			}
+			return fail(`Unknown config key ${option("--get")}`);
+		case "workspace":
+			state.focusedWorkspace = args[1] ?? fail("Missing workspace");
+			state.visibleWorkspaces = [state.focusedWorkspace];
+			break;
+		case "move-node-to-workspace":
+			findWindow(option("--window-id")).workspace =
+				args.at(-1) ?? fail("Missing workspace");
+			break;
+		case "layout": {
+			const windowId = option("--window-id");
+			if (windowId && (args[1] === "floating" || args[1] === "tiling")) {
+				findWindow(windowId).floating = args[1] === "floating";
+			}
+			break;
+		}
+		case "focus":
+			state.focusedWindowId = findWindow(option("--window-id")).id;
+			break;
+		case "close": {
+			const window = findWindow(option("--window-id"));
+			state.windows = state.windows.filter((w) => w !== window);
+			break;
+		}
+	}
+	save();
+}
+
+function osascript() {
+	if (args[0] === "-l") {
+		const [, , , script = "", ...pids] = args;
+		if (script.includes("NSScreen")) {
+			console.log(JSON.stringify(state.screens ?? []));
+			return;
+		}
+		if (state.noFrames) {
+			fail(
+				"System Events got an error: osascript is not allowed assistive access",
+			);
+		}
+		// Frames of the windows of the given processes, one per window
+		console.log(
+			JSON.stringify(
+				state.windows
+					.filter((w) => w.frame && pids.includes(String(w.id)))
+					.map((w) => ({ pid: w.id, title: w.title, ...w.frame })),
+			),
+		);
+		return;
+	}
+	const script = args.filter((arg) => arg !== "-e").join("\n");
+	const isRunning = script.match(/^application id "(.+)" is running$/);
+	if (isRunning) {
+		console.log(state.windows.some((w) => w.bundleId === isRunning[1]));
+		return;
+	}
+	// activate + ⌘N opens a new window
+	const activate = script.match(/tell application id "(.+)" to activate/);
+	const app = state.windows.find((w) => w.bundleId === activate?.[1]);
+	if (app) {
+		addWindow(app.bundleId, app.app, "Untitled");
+		save();
+	}
+}
+
+function open() {
+	const bundleId = option("-b") ?? fail("Missing bundle id");
+	const installed = state.installed?.[bundleId];
+	if (!installed) {
+		fail(`Unable to find application with identifier ${bundleId}`);
+	}
+	// The URL or path to open, between the bundle ID and the app's arguments
+	const end = args.indexOf("--args");
+	const [target] = args.slice(
+		args.indexOf("-b") + 2,
+		end === -1 ? undefined : end,
+	);
+	if (!state.windows.some((w) => w.bundleId === bundleId)) {
+		for (const title of installed.titles) {
+			addWindow(bundleId, installed.app, title);
+		}
+		save();
+	} else if (target || args.includes("-n")) {
+		// A running app shows the document, or a new instance, in a window of its own
+		addWindow(bundleId, installed.app, target ?? "Untitled");
+		save();
+	}
+}
+
+// Spotlight finds the installed apps and those with windows
+function mdfind() {
+	const query = args[0]?.match(/^kMDItemCFBundleIdentifier == "(.+)"$/);
+	const bundleId = query?.[1] ?? fail(`Unsupported query ${args[0]}`);
+	const app =
+		state.installed?.[bundleId]?.app ??
+		state.windows.find((w) => w.bundleId === bundleId)?.app;
+	if (app) {
+		console.log(`/Applications/${app}.app`);
+	}
+}
+
+function systemProfiler() {
+	const fixture = join(
+		import.meta.dir,
+		"displays",
+		`${state.displays ?? "single"}.json`,
+	);
+	process.stdout.write(readFileSync(fixture, "utf8"));
+}
+
+switch (tool) {
+	case "aerospace":
+		await aerospace();
+		break;
+	case "osascript":
+		osascript();
+		break;
+	case "open":
+		open();
+		break;
+	case "mdfind":
+		mdfind();
+		break;
+	case "system_profiler":
+		systemProfiler();
+		break;
+	default:
+		fail(`Unknown tool ${tool}`);
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { floatWindows, getFloatingFrame } from "../src/floating";
+import { getLayoutWindows, traverseTreeReposition } from "../src/traverse";
+import type { Layout, LayoutWindow, WorkArea } from "../src/types";
+import { resolvedWindows } from "../src/windows";
+import { createContext, useFakeMac } from "./helpers";
+
+// A 1512x982 display with the menu bar and 8px outer gaps
+const workArea: WorkArea = {
+	x: 8,
+	y: 45,
+	width: 1496,
+	height: 929,
+	innerGaps: { horizontal: 0, vertical: 0 },
+};
+
+function floating(window: Partial<LayoutWindow>): LayoutWindow {
+	return { bundleId: "com.apple.Notes", floating: true, ...window };
+}
+
+describe("getFloatingFrame", () => {
+	test("places a window at an offset from the top-left corner by default", () => {
+		const item = floating({
+			frame: { x: "10px", y: "10%", width: "1/2", height: "400px" },
+		});
+		expect(getFloatingFrame(item, workArea)).toEqual({
+			x: 18,
+			y: 138,
+			width: 748,
+			height: 400,
+		});
+	});
+
+	test("measures offsets from the anchor towards the middle", () => {
+		const item = floating({
+			anchor: "top-right",
+			frame: { x: "20px", y: "20px", width: "600px", height: "1/4" },
+		});
+		expect(getFloatingFrame(item, workArea)).toEqual({
+			x: 884,
+			y: 65,
+			width: 600,
+			height: 232,
+		});
+	});
+
+	test("centers a window on the center anchor", () => {
+		const item = floating({
+			anchor: "center",
+			frame: { width: "800px", height: "500px" },
+		});
+		expect(getFloatingFrame(item, workArea)).toEqual({
+			x: 356,
+			y: 260,
+			width: 800,
+			height: 500,
+		});
+	});
+
+	test("keeps the current size when the frame has none", () => {
+		const item = floating({ anchor: "bottom" });
+		expect(getFloatingFrame(item, workArea)).toBeNull();
+		expect(
+			getFloatingFrame(item, workArea, { width: 400, height: 300 }),
+		).toEqual({ x: 556, y: 674, width: 400, height: 300 });
+	});
+});
+
+describe("floatWindows", () => {
+	test("makes the windows floating through aerospace", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		const item = floating({});
+		resolvedWindows.set(item, "7");
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [item],
+		};
+
+		await floatWindows(createContext(layout), [item]);
+
+		expect(mac.aerospaceCalls()).toEqual(["layout floating --window-id 7"]);
+	});
+});
+
+describe("traverseTreeReposition", () => {
+	test("floats floating windows and leaves them out of the joins", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				floating({ bundleId: "com.apple.Notes", anchor: "top-right" }),
+				{ bundleId: "com.apple.Safari" },
+				{
+					orientation: "vertical",
+					windows: [
+						{ bundleId: "com.apple.Terminal" },
+						floating({ bundleId: "com.apple.Music" }),
+						{ bundleId: "com.jetbrains.WebStorm" },
+					],
+				},
+			],
+		};
+		for (const [i, item] of getLayoutWindows(layout.windows).entries()) {
+			resolvedWindows.set(item, String(i + 1));
+		}
+
+		await traverseTreeReposition(createContext(layout), layout.windows);
+
+		expect(mac.aerospaceCalls().filter((c) => !c.startsWith("list-"))).toEqual([
+			"layout floating --window-id 1",
+			"layout floating --window-id 4",
+			"flatten-workspace-tree --workspace 1",
+			"layout h_tiles --window-id 2",
+			"focus --window-id 5",
+			"join-with --window-id 5 left",
+		]);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigError } from "../src/errors";
+import {
+	type ConfigFormat,
+	getConfigFormat,
+	parseConfig,
+	stringifyConfig,
+	writeConfigFile,
+} from "../src/formats";
+import type { LayoutConfigFile } from "../src/types";
+
+const config: LayoutConfigFile = {
+	stashWorkspace: "S",
+	layouts: {
+		work: {
+			workspace: "1",
+			layout: "v_tiles",
+			orientation: "vertical",
+			windows: [
+				{ bundleId: "com.apple.Safari" },
+				{
+					orientation: "horizontal",
+					windows: [
+						{ bundleId: "com.jetbrains.WebStorm", size: "2/3" },
+						{ fragment: "terminal" },
+					],
+				},
+			],
+			autoApply: { onDisplays: ["external"], onAppLaunch: true },
+		},
+	},
+	fragments: { terminal: [{ bundleId: "com.apple.Terminal", size: "1/3" }] },
+};
+
+describe("getConfigFormat", () => {
+	test("picks the format from the extension", () => {
+		expect(getConfigFormat("~/.config/aerospace/layouts.json")).toBe("json");
+		expect(getConfigFormat("layouts.jsonc")).toBe("jsonc");
+		expect(getConfigFormat("layouts.yml")).toBe("yaml");
+		expect(getConfigFormat("layouts.TOML")).toBe("toml");
+		expect(() => getConfigFormat("layouts.txt")).toThrow(
+			"Unknown configuration format",
+		);
+	});
+});
+
+describe("stringifyConfig", () => {
+	test.each(["json", "jsonc", "yaml", "toml"] as ConfigFormat[])(
+		"writes %s that reads back the same",
+		(format) => {
+			expect(parseConfig(stringifyConfig(config, format), format)).toEqual(
+				config,
+			);
+		},
+	);
+});
+
+describe("writeConfigFile", () => {
+	test("reports a value the format can't hold as a ConfigError", async () => {
+		const path = join(mkdtempSync(join(tmpdir(), "formats-")), "layouts.toml");
+		const write = writeConfigFile(path, { stashWorkspace: null });
+		await expect(write).rejects.toThrow(ConfigError);
+		await expect(write).rejects.toThrow(`Unable to write ${path}`);
+		expect(existsSync(path)).toBe(false);
+	});
+});
+
+describe("parseConfig", () => {
+	test("accepts comments and trailing commas in JSONC", () => {
+		const text = `{
+			// Stash windows out of sight
+			"stashWorkspace": "S",
+			"layouts": {}, /* filled in by --save */
+		}`;
+		expect(parseConfig(text, "jsonc")).toEqual({
+			stashWorkspace: "S",
+			layouts: {},
+		});
+	});
+
+	test("reads workspaces named with numbers as strings in YAML", () => {
+		const text = 'layouts:\n  web:\n    workspace: "2"\n';
+		expect(parseConfig(text, "yaml")).toEqual({
+			layouts: { web: { workspace: "2" } },
+		});
+	});
+});
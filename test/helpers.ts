@@ -0,0 +1,80 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSpawnExecutor, setExecutor } from "../src/exec";
+import type { ApplyContext, DisplayInfo, Layout } from "../src/types";
+import { resetResolvedWindows } from "../src/windows";
+import type { FakeState } from "./fixtures/fake-cli";
+
+const binDir = join(import.meta.dir, "fixtures", "bin");
+
+/**
+ * Point every command at the fake tools in test/fixtures/bin, starting from
+ * the given window manager state, and forget windows picked by earlier tests.
+ * Snapshots for --undo are kept next to the state.
+ */
+export function useFakeMac(initialState: FakeState) {
+	const dir = mkdtempSync(join(tmpdir(), "aerospace-layout-manager-"));
+	const statePath = join(dir, "state.json");
+	writeFileSync(statePath, JSON.stringify(initialState));
+	writeFileSync(join(dir, "calls.log"), "");
+	process.env.XDG_STATE_HOME = dir;
+	const env = {
+		...process.env,
+		PATH: `${binDir}:${process.env.PATH}`,
+		FAKE_STATE: statePath,
+	};
+	setExecutor(createSpawnExecutor({ env }));
+	resetResolvedWindows();
+
+	return {
+		// Environment running the fake tools, e.g. for the CLI itself
+		env,
+		state(): FakeState {
+			return JSON.parse(readFileSync(statePath, "utf8"));
+		},
+		// aerospace invocations, e.g. "move-node-to-workspace --window-id 1 2"
+		aerospaceCalls(): string[] {
+			return this.calls()
+				.filter((call) => call.startsWith("aerospace "))
+				.map((call) => call.slice("aerospace ".length));
+		},
+		// Invocations of every tool, e.g. "open -b com.apple.Safari"
+		calls(): string[] {
+			return readFileSync(join(dir, "calls.log"), "utf8")
+				.split("\n")
+				.filter(Boolean)
+				.map((line) => (JSON.parse(line) as string[]).join(" "));
+		},
+	};
+}
+
+export const builtInDisplay: DisplayInfo = {
+	id: 1,
+	name: "Color LCD",
+	width: 1512,
+	height: 982,
+	isMain: true,
+	isInternal: true,
+};
+
+export function createContext(
+	layout: Layout,
+	overrides: Partial<ApplyContext> = {},
+): ApplyContext {
+	return {
+		name: "test",
+		layout,
+		display: builtInDisplay,
+		originalWorkspace: "9",
+		stashWorkspace: "S",
+		workArea: {
+			x: 0,
+			y: 0,
+			width: builtInDisplay.width,
+			height: builtInDisplay.height,
+			innerGaps: { horizontal: 0, vertical: 0 },
+		},
+		...overrides,
+	};
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError } from "../src/errors";
+import { applyLayoutParams, parseParamValues } from "../src/params";
+import type { Layout } from "../src/types";
+
+const dev: Layout = {
+	workspace: "${workspace}",
+	layout: "h_tiles",
+	orientation: "horizontal",
+	params: { project: { required: true }, workspace: "3" },
+	windows: [
+		{
+			bundleId: "com.microsoft.VSCode",
+			windowTitle: "${project}",
+			open: { path: "~/src/${project}" },
+		},
+		{
+			bundleId: "com.apple.Safari",
+			open: { url: "https://${project}.localhost" },
+		},
+	],
+};
+
+describe("parseParamValues", () => {
+	test("splits each assignment at the first =", () => {
+		expect(parseParamValues(["project=api", "query=a=b"])).toEqual({
+			project: "api",
+			query: "a=b",
+		});
+	});
+
+	test("rejects an assignment without a name", () => {
+		expect(() => parseParamValues(["=api"])).toThrow(ConfigError);
+		expect(() => parseParamValues(["project"])).toThrow(
+			"Invalid --set project: expected name=value",
+		);
+	});
+});
+
+describe("applyLayoutParams", () => {
+	test("fills in set values and defaults", () => {
+		expect(applyLayoutParams("dev", dev, { project: "web.app" })).toEqual({
+			workspace: "3",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{
+					bundleId: "com.microsoft.VSCode",
+					// Matched literally in the title
+					windowTitle: "web\\.app",
+					open: { path: "~/src/web.app" },
+				},
+				{
+					bundleId: "com.apple.Safari",
+					open: { url: "https://web.app.localhost" },
+				},
+			],
+		});
+	});
+
+	test("prefers set values over defaults", () => {
+		const layout = applyLayoutParams("dev", dev, {
+			project: "api",
+			workspace: "4",
+		});
+		expect(layout.workspace).toBe("4");
+	});
+
+	test("doesn't take object built-ins for values", () => {
+		const layout = { ...dev, workspace: "${toString}" };
+		expect(() => applyLayoutParams("dev", layout, { project: "api" })).toThrow(
+			'Layout "dev" needs a value for ${toString}',
+		);
+	});
+
+	test("names the variables without a value", () => {
+		expect(() => applyLayoutParams("dev", dev, {})).toThrow(
+			'Layout "dev" needs a value for ${project}: pass --set project=<value>',
+		);
+		expect(() =>
+			applyLayoutParams("dev", { ...dev, params: undefined }, {}),
+		).toThrow(
+			'Layout "dev" needs a value for ${workspace}, ${project}: pass --set workspace=<value> --set project=<value>',
+		);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { filterLayoutNames, pickLayout } from "../src/picker";
+
+describe("filterLayoutNames", () => {
+	const names = ["web", "work", "work-dual", "writing", "music"];
+
+	test("keeps names containing the query's characters in order", () => {
+		expect(filterLayoutNames(names, "wk").sort()).toEqual([
+			"work",
+			"work-dual",
+		]);
+		expect(filterLayoutNames(names, "xyz")).toEqual([]);
+	});
+
+	test("ranks consecutive and word-start matches first", () => {
+		expect(filterLayoutNames(names, "wd")[0]).toBe("work-dual");
+		expect(filterLayoutNames(names, "wor")).toEqual(["work", "work-dual"]);
+	});
+
+	test("keeps every name, in order, for an empty query", () => {
+		expect(filterLayoutNames(names, "")).toEqual(names);
+	});
+});
+
+describe("pickLayout", () => {
+	test("rejects without a terminal to draw in", async () => {
+		const { isTTY } = process.stdin;
+		process.stdin.isTTY = false;
+		try {
+			await expect(
+				pickLayout({ stashWorkspace: "S", layouts: {} }),
+			).rejects.toThrow("--interactive needs a terminal");
+		} finally {
+			process.stdin.isTTY = isTTY;
+		}
+	});
+});
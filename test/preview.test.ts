@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { renderLayoutPreview } from "../src/preview";
+import type { Layout } from "../src/types";
+
+// A 16:10 display, 31 columns wide: 10 rows of cells twice as tall as wide
+const display = { width: 1600, height: 1000 };
+
+describe("renderLayoutPreview", () => {
+	test("draws each window as a box with its app and size", () => {
+		const layout: Layout = {
+			workspace: "1",
+			layout: "v_tiles",
+			orientation: "vertical",
+			windows: [
+				{ bundleId: "com.apple.Safari" },
+				{
+					orientation: "horizontal",
+					windows: [
+						{ bundleId: "com.jetbrains.WebStorm", size: "2/3" },
+						{ bundleId: "com.apple.Terminal", size: "1/3" },
+					],
+				},
+			],
+		};
+		expect(renderLayoutPreview(layout, display, 31)).toEqual([
+			"+-----------------------------+",
+			"|           Safari            |",
+			"|                             |",
+			"|                             |",
+			"|                             |",
+			"+-------------------+---------+",
+			"|     WebStorm      |Terminal |",
+			"|        2/3        |   1/3   |",
+			"|                   |         |",
+			"+-------------------+---------+",
+		]);
+	});
+
+	test("draws an accordion as one box and lists floating windows", () => {
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.microsoft.VSCode", size: "60%" },
+				{
+					orientation: "vertical",
+					layout: "accordion",
+					windows: [
+						{ bundleId: "com.apple.mail" },
+						{ bundleId: "com.apple.iCal" },
+					],
+				},
+				{ bundleId: "com.apple.Music", floating: true, anchor: "top-right" },
+			],
+		};
+		const preview = renderLayoutPreview(layout, display, 31);
+		expect(preview.slice(0, 3)).toEqual([
+			"+-----------------+-----------+",
+			"|     VSCode      |mail / iCal|",
+			"|       60%       | accordion |",
+		]);
+		expect(preview.at(-1)).toBe("floating: Music (top-right)");
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import { applyNamedLayout } from "../src/apply";
+import { resetRunReport, runReport } from "../src/report";
+import type { Layout, LayoutConfig } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+// Safari on two thirds of the built-in display, Terminal on the rest
+const safari = {
+	id: 1,
+	app: "Safari",
+	bundleId: "com.apple.Safari",
+	title: "Start Page",
+	workspace: "1",
+	frame: { x: 0, y: 0, width: 1008, height: 982 },
+};
+const terminal = {
+	id: 2,
+	app: "Terminal",
+	bundleId: "com.apple.Terminal",
+	title: "zsh",
+	workspace: "1",
+	frame: { x: 1008, y: 0, width: 504, height: 982 },
+};
+
+const work: Layout = {
+	workspace: "1",
+	layout: "h_tiles",
+	orientation: "horizontal",
+	windows: [
+		{ bundleId: "com.apple.Safari", size: "2/3" },
+		{ bundleId: "com.apple.Terminal", size: "1/3" },
+	],
+};
+
+const config: LayoutConfig = { stashWorkspace: "S", layouts: { work } };
+
+// Commands that change the windows or their tree
+function changes(calls: string[]): string[] {
+	return calls.filter((c) =>
+		/^(move-node-to-workspace|join-with|resize|flatten-workspace-tree|layout|close)\b/.test(
+			c,
+		),
+	);
+}
+
+describe("reconcile", () => {
+	test("leaves a workspace that already matches alone", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [safari, terminal],
+		});
+		await applyNamedLayout(config, "work", { reconcile: true });
+
+		expect(changes(mac.aerospaceCalls())).toEqual([]);
+	});
+
+	test("only moves the windows that are elsewhere", async () => {
+		const finder = {
+			id: 3,
+			app: "Finder",
+			bundleId: "com.apple.finder",
+			title: "Downloads",
+			workspace: "1",
+		};
+		// Without frames, as the fake doesn't resize windows
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [
+				{ ...safari, frame: undefined },
+				{ ...terminal, workspace: "4", frame: undefined },
+				finder,
+			],
+		});
+		await applyNamedLayout(config, "work", { reconcile: true });
+
+		expect(mac.state().windows.map((w) => [w.app, w.workspace])).toEqual([
+			["Safari", "1"],
+			["Terminal", "1"],
+			["Finder", "S"],
+		]);
+		// Safari is kept in place rather than moved in again
+		expect(
+			changes(mac.aerospaceCalls()).filter((c) => c.startsWith("move-node")),
+		).toEqual([
+			"move-node-to-workspace --window-id 2 1",
+			"move-node-to-workspace --window-id 3 S",
+		]);
+	});
+
+	test("doesn't float a kept window that already floats", async () => {
+		const finder = {
+			id: 3,
+			app: "Finder",
+			bundleId: "com.apple.finder",
+			title: "Downloads",
+			workspace: "1",
+			floating: true,
+		};
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [safari, terminal, finder],
+		});
+		await applyNamedLayout(
+			{ ...config, layouts: { work: { ...work, existingWindows: "keep" } } },
+			"work",
+			{ reconcile: true },
+		);
+
+		expect(changes(mac.aerospaceCalls())).toEqual([]);
+	});
+
+	test("rebuilds the workspace when its windows can't be read", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [safari, terminal],
+			noFrames: true,
+		});
+		resetRunReport();
+		await applyNamedLayout(config, "work", { reconcile: true });
+
+		expect(changes(mac.aerospaceCalls())).toContain(
+			"flatten-workspace-tree --workspace 1",
+		);
+		expect(runReport.warnings).toEqual([
+			expect.stringContaining(
+				"Unable to read the windows of workspace 1, rebuilding it",
+			),
+		]);
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { getLayoutParts, moveWorkspaceToDisplay } from "../src/sections";
+import type { DisplayInfo, Layout } from "../src/types";
+import { builtInDisplay, useFakeMac } from "./helpers";
+
+const dell: DisplayInfo = {
+	id: 2,
+	name: "DELL U2723QE",
+	width: 2560,
+	height: 1440,
+	isMain: true,
+	isInternal: false,
+};
+
+// An editor on the external monitor, chat and docs on the laptop screen
+function deskLayout(): Layout {
+	return {
+		workspace: "1",
+		layout: "h_tiles",
+		orientation: "horizontal",
+		display: "external",
+		windows: [{ bundleId: "com.microsoft.VSCode" }],
+		sections: [
+			{
+				workspace: "2",
+				layout: "v_accordion",
+				orientation: "vertical",
+				display: "internal",
+				windows: [
+					{ bundleId: "com.tinyspeck.slackmacgap" },
+					{ bundleId: "com.apple.Safari" },
+				],
+			},
+		],
+	};
+}
+
+describe("getLayoutParts", () => {
+	test("a layout without sections is a single part", () => {
+		const { sections, ...layout } = deskLayout();
+		expect(getLayoutParts("desk", layout)).toEqual([
+			{ name: "desk", layout, moveToDisplay: false },
+		]);
+	});
+
+	test("splits a layout into its own workspace and its sections", () => {
+		const { sections, ...base } = deskLayout();
+		expect(getLayoutParts("desk", deskLayout())).toEqual([
+			{ name: "desk/1", layout: base, moveToDisplay: true },
+			{
+				name: "desk/2",
+				layout: sections?.[0] as Layout,
+				moveToDisplay: true,
+			},
+		]);
+	});
+});
+
+describe("moveWorkspaceToDisplay", () => {
+	test("moves the workspace to the monitor showing the display", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [],
+			monitors: ["Built-in Retina Display", "DELL U2723QE"],
+		});
+		await moveWorkspaceToDisplay("1", dell);
+		await moveWorkspaceToDisplay("2", builtInDisplay);
+
+		expect(
+			mac.aerospaceCalls().filter((c) => c.startsWith("move-workspace")),
+		).toEqual([
+			"move-workspace-to-monitor --workspace 1 2",
+			"move-workspace-to-monitor --workspace 2 1",
+		]);
+	});
+
+	test("does nothing with a single monitor", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		await moveWorkspaceToDisplay("1", dell);
+		expect(mac.aerospaceCalls()).toEqual([
+			"list-monitors --json --format %{monitor-id} %{monitor-name}",
+		]);
+	});
+});
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { getTargetSizes, getWorkArea, parseSize } from "../src/sizes";
+import type { Layout, LayoutItem, WorkArea } from "../src/types";
+import { builtInDisplay, useFakeMac } from "./helpers";
+
+const workArea: WorkArea = {
+	x: 0,
+	y: 0,
+	width: 1000,
+	height: 800,
+	innerGaps: { horizontal: 10, vertical: 20 },
+};
+
+// Target of each item as "WIDTHxHEIGHT", depth-first
+function sizesOf(layout: Layout): string[] {
+	const targets = getTargetSizes(layout, workArea);
+	const collect = (items: LayoutItem[]): string[] =>
+		items.flatMap((item) => [
+			`${targets.get(item)?.width}x${targets.get(item)?.height}`,
+			...("windows" in item ? collect(item.windows) : []),
+		]);
+	return collect(layout.windows);
+}
+
+describe("parseSize", () => {
+	test("reads fractions, percentages, pixels and fill", () => {
+		expect(parseSize("2/3")).toEqual({ type: "ratio", ratio: 2 / 3 });
+		expect(parseSize("40%")).toEqual({ type: "ratio", ratio: 0.4 });
+		expect(parseSize("800px")).toEqual({ type: "pixels", pixels: 800 });
+		expect(parseSize("fill")).toEqual({ type: "fill" });
+	});
+});
+
+describe("getTargetSizes", () => {
+	test("subtracts the inner gaps before sizing siblings", () => {
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.apple.Safari", size: "1/2" },
+				{ bundleId: "com.apple.Terminal", size: "1/2" },
+			],
+		};
+		// (1000 - 10) / 2
+		expect(sizesOf(layout)).toEqual(["495x800", "495x800"]);
+	});
+
+	test("sizes nested items against their group, not the display", () => {
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.apple.Safari", size: "40%" },
+				{
+					orientation: "horizontal",
+					windows: [
+						{ bundleId: "com.jetbrains.WebStorm", size: "1/2" },
+						{ bundleId: "com.apple.Terminal", size: "1/2" },
+					],
+				},
+			],
+		};
+		// Safari: 40% of 990. The group gets the other 594, then (594 - 10) / 2
+		expect(sizesOf(layout)).toEqual([
+			"396x800",
+			"594x800",
+			"292x800",
+			"292x800",
+		]);
+	});
+
+	test("spreads what is left across items with no size or fill", () => {
+		const layout: Layout = {
+			workspace: "1",
+			layout: "v_tiles",
+			orientation: "vertical",
+			windows: [
+				{ bundleId: "com.apple.Safari", size: "300px" },
+				{ bundleId: "com.apple.Terminal" },
+				{ bundleId: "com.apple.Notes", size: "fill" },
+			],
+		};
+		// (800 - 2 * 20 - 300) / 2
+		expect(sizesOf(layout)).toEqual(["1000x300", "1000x230", "1000x230"]);
+	});
+
+	test("gives every item of an accordion group the whole group", () => {
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.microsoft.VSCode", size: "60%" },
+				{
+					orientation: "vertical",
+					layout: "accordion",
+					windows: [
+						{ bundleId: "com.tinyspeck.slackmacgap" },
+						{ bundleId: "com.apple.mail" },
+						{ bundleId: "com.apple.iCal" },
+					],
+				},
+			],
+		};
+		expect(sizesOf(layout)).toEqual([
+			"594x800",
+			"396x800",
+			"396x800",
+			"396x800",
+			"396x800",
+		]);
+	});
+});
+
+describe("getWorkArea", () => {
+	test("is the visible frame minus aerospace's outer gaps", async () => {
+		useFakeMac({
+			focusedWorkspace: "1",
+			windows: [],
+			screens: [
+				{
+					name: "Built-in Retina Display",
+					x: 0,
+					y: 37,
+					width: 1512,
+					height: 945,
+				},
+			],
+			gaps: {
+				inner: { horizontal: 8, vertical: 8 },
+				outer: {
+					left: 8,
+					right: 8,
+					top: [{ "monitor.main": 16 }, 12],
+					bottom: 8,
+				},
+			},
+		});
+		expect(await getWorkArea(builtInDisplay)).toEqual({
+			x: 8,
+			y: 49,
+			width: 1496,
+			height: 925,
+			innerGaps: { horizontal: 8, vertical: 8 },
+		});
+	});
+
+	test("falls back to the whole display without gaps", async () => {
+		useFakeMac({ focusedWorkspace: "1", windows: [] });
+		expect(await getWorkArea(builtInDisplay)).toEqual({
+			x: 0,
+			y: 0,
+			width: 1512,
+			height: 982,
+			innerGaps: { horizontal: 0, vertical: 0 },
+		});
+	});
+});
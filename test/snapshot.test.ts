@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { closeWindow } from "../src/aerospace";
+import { applyNamedLayout } from "../src/apply";
+import { restoreSnapshot } from "../src/snapshot";
+import type { Layout, LayoutConfig } from "../src/types";
+import { useFakeMac } from "./helpers";
+
+const windows = [
+	{
+		id: 1,
+		app: "Safari",
+		bundleId: "com.apple.Safari",
+		title: "Start Page",
+		workspace: "3",
+	},
+	{
+		id: 2,
+		app: "Terminal",
+		bundleId: "com.apple.Terminal",
+		title: "zsh",
+		workspace: "4",
+	},
+	// Already in the layout's workspace: stashed by the layout
+	{
+		id: 3,
+		app: "Finder",
+		bundleId: "com.apple.finder",
+		title: "Downloads",
+		workspace: "1",
+	},
+	// Not touched by the layout
+	{
+		id: 4,
+		app: "Mail",
+		bundleId: "com.apple.mail",
+		title: "Inbox",
+		workspace: "6",
+	},
+];
+
+const work: Layout = {
+	workspace: "1",
+	layout: "h_tiles",
+	orientation: "horizontal",
+	windows: [
+		{ bundleId: "com.apple.Safari" },
+		{ bundleId: "com.apple.Terminal" },
+	],
+};
+
+const config: LayoutConfig = { stashWorkspace: "S", layouts: { work } };
+
+describe("restoreSnapshot", () => {
+	test("puts the windows moved by the last layout back", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "6", windows });
+		await applyNamedLayout(config, "work");
+		expect(mac.state().windows.map((w) => w.workspace)).toEqual([
+			"1",
+			"1",
+			"S",
+			"6",
+		]);
+
+		const changesBefore = mac.aerospaceCalls().length;
+		await restoreSnapshot(config.stashWorkspace);
+
+		expect(mac.state().windows.map((w) => w.workspace)).toEqual([
+			"3",
+			"4",
+			"1",
+			"6",
+		]);
+		expect(mac.state().focusedWorkspace).toBe("6");
+		// Mail never moved, so it isn't moved back
+		expect(
+			mac
+				.aerospaceCalls()
+				.slice(changesBefore)
+				.filter((c) => c.startsWith("move-node")),
+		).toEqual([
+			"move-node-to-workspace --window-id 1 3",
+			"move-node-to-workspace --window-id 2 4",
+			"move-node-to-workspace --window-id 3 1",
+		]);
+	});
+
+	test("can only undo the last layout once", async () => {
+		useFakeMac({ focusedWorkspace: "6", windows });
+		await applyNamedLayout(config, "work");
+		await restoreSnapshot(config.stashWorkspace);
+
+		await expect(restoreSnapshot(config.stashWorkspace)).rejects.toThrow(
+			"Nothing to restore: no layout has been applied yet",
+		);
+	});
+
+	test("skips windows closed since", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "6", windows });
+		await applyNamedLayout(config, "work");
+		await closeWindow("1");
+		await restoreSnapshot(config.stashWorkspace);
+
+		expect(mac.state().windows.map((w) => [w.id, w.workspace])).toEqual([
+			[2, "4"],
+			[3, "1"],
+			[4, "6"],
+		]);
+	});
+
+	test("tiles a window kept floating by the layout again", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "6", windows });
+		await applyNamedLayout(
+			{
+				...config,
+				layouts: { work: { ...work, existingWindows: "keep" } },
+			},
+			"work",
+		);
+		expect(mac.state().windows.find((w) => w.id === 3)?.floating).toBe(true);
+
+		await restoreSnapshot(config.stashWorkspace);
+
+		expect(mac.state().windows.find((w) => w.id === 3)?.floating).toBe(false);
+		expect(mac.aerospaceCalls()).toContain("layout tiling --window-id 3");
+	});
+});
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AerospaceClient } from "../src/exec";
+import { createSocketClient, getAerospaceSocketPath } from "../src/socket";
+
+type Server = ReturnType<typeof Bun.listen>;
+
+let server: Server | undefined;
+
+afterEach(() => {
+	server?.stop(true);
+	server = undefined;
+});
+
+function socketPath() {
+	return join(mkdtempSync(join(tmpdir(), "aerospace-socket-")), "server.sock");
+}
+
+// Stand-in for the AeroSpace server, answering each request with `answer`
+function listen(path: string, answer: (args: string[]) => object | null) {
+	server = Bun.listen({
+		unix: path,
+		socket: {
+			data(socket, data) {
+				const { args } = JSON.parse(data.toString()) as { args: string[] };
+				const response = answer(args);
+				if (response) {
+					socket.write(JSON.stringify(response));
+				}
+			},
+		},
+	});
+}
+
+// Records the commands that fell back to the CLI
+function fakeCli(calls: string[][]): AerospaceClient {
+	return {
+		async run(args) {
+			calls.push(args);
+			return { exitCode: 0, stdout: "cli", stderr: "", timedOut: false };
+		},
+	};
+}
+
+describe("createSocketClient", () => {
+	test("sends every command over one connection", async () => {
+		const path = socketPath();
+		let connections = 0;
+		const requests: string[][] = [];
+		server = Bun.listen({
+			unix: path,
+			socket: {
+				open() {
+					connections++;
+				},
+				data(socket, data) {
+					const { args } = JSON.parse(data.toString()) as { args: string[] };
+					requests.push(args);
+					socket.write(
+						JSON.stringify({ exitCode: 0, stdout: args.join(","), stderr: "" }),
+					);
+				},
+			},
+		});
+		const cliCalls: string[][] = [];
+		const client = createSocketClient(path, fakeCli(cliCalls));
+
+		const results = await Promise.all([
+			client.run(["list-workspaces", "--focused"]),
+			client.run(["workspace", "2"]),
+		]);
+
+		expect(results.map((r) => r.stdout)).toEqual([
+			"list-workspaces,--focused",
+			"workspace,2",
+		]);
+		expect(requests).toEqual([
+			["list-workspaces", "--focused"],
+			["workspace", "2"],
+		]);
+		expect(connections).toBe(1);
+		expect(cliCalls).toEqual([]);
+	});
+
+	test("passes on the exit code and stderr of a failed command", async () => {
+		const path = socketPath();
+		listen(path, () => ({
+			exitCode: 1,
+			stdout: "",
+			stderr: "Invalid <window-id> 9",
+		}));
+		const client = createSocketClient(path, fakeCli([]));
+
+		expect(await client.run(["focus", "--window-id", "9"])).toEqual({
+			exitCode: 1,
+			stdout: "",
+			stderr: "Invalid <window-id> 9",
+			timedOut: false,
+		});
+	});
+
+	test("reports a command the server doesn't answer in time", async () => {
+		const path = socketPath();
+		listen(path, () => null);
+		const client = createSocketClient(path, fakeCli([]));
+
+		const result = await client.run(["workspace", "2"], { timeoutMs: 100 });
+		expect(result.timedOut).toBe(true);
+	});
+
+	test("doesn't run a command again when the server drops it", async () => {
+		const path = socketPath();
+		server = Bun.listen({
+			unix: path,
+			socket: {
+				data(socket) {
+					socket.end();
+				},
+			},
+		});
+		const cliCalls: string[][] = [];
+		const client = createSocketClient(path, fakeCli(cliCalls));
+
+		const result = await client.run(["close", "--window-id", "1"]);
+		expect(result.exitCode).toBeNull();
+		expect(result.stderr).toContain("closed before it answered");
+		expect(cliCalls).toEqual([]);
+	});
+
+	test("falls back to the CLI when the server isn't running", async () => {
+		const cliCalls: string[][] = [];
+		const client = createSocketClient(socketPath(), fakeCli(cliCalls));
+
+		expect((await client.run(["workspace", "2"])).stdout).toBe("cli");
+		expect((await client.run(["workspace", "3"])).stdout).toBe("cli");
+		expect(cliCalls).toEqual([
+			["workspace", "2"],
+			["workspace", "3"],
+		]);
+	});
+});
+
+describe("getAerospaceSocketPath", () => {
+	test("can be pointed at another server", () => {
+		const { AEROSPACE_SOCKET } = process.env;
+		try {
+			process.env.AEROSPACE_SOCKET = "/tmp/test.sock";
+			expect(getAerospaceSocketPath()).toBe("/tmp/test.sock");
+			process.env.AEROSPACE_SOCKET = "";
+			expect(getAerospaceSocketPath()).toStartWith("/tmp/bobko.aerospace-");
+		} finally {
+			process.env.AEROSPACE_SOCKET = AEROSPACE_SOCKET ?? "";
+		}
+	});
+});
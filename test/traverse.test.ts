@@ -0,0 +1,442 @@
+import { describe, expect, test } from "bun:test";
+import { getWindowReport } from "../src/report";
+import {
+	getLayoutWindows,
+	getSizeDrift,
+	traverseTreeMove,
+	traverseTreeReposition,
+	traverseTreeResize,
+} from "../src/traverse";
+import type { Layout, LayoutItem, LayoutWindow } from "../src/types";
+import { resolvedWindows } from "../src/windows";
+import type { FakeWindow } from "./fixtures/fake-cli";
+import { createContext, useFakeMac } from "./helpers";
+
+const safari: FakeWindow = {
+	id: 1,
+	app: "Safari",
+	bundleId: "com.apple.Safari",
+	title: "Start Page",
+	workspace: "3",
+};
+const webStorm: FakeWindow = {
+	id: 2,
+	app: "WebStorm",
+	bundleId: "com.jetbrains.WebStorm",
+	title: "api – index.ts",
+	workspace: "4",
+};
+const terminal: FakeWindow = {
+	id: 3,
+	app: "Terminal",
+	bundleId: "com.apple.Terminal",
+	title: "zsh",
+	workspace: "1",
+};
+
+// The "work" layout from the README
+function workLayout(): Layout {
+	return {
+		workspace: "1",
+		layout: "v_tiles",
+		orientation: "vertical",
+		windows: [
+			{ bundleId: "com.apple.Safari" },
+			{
+				orientation: "horizontal",
+				windows: [
+					{ bundleId: "com.jetbrains.WebStorm", size: "2/3" },
+					{ bundleId: "com.apple.Terminal", size: "1/3" },
+				],
+			},
+		],
+	};
+}
+
+function layoutWindows(layout: Layout): LayoutWindow[] {
+	return layout.windows.flatMap((item) =>
+		"bundleId" in item ? [item] : (item.windows as LayoutWindow[]),
+	);
+}
+
+// Commands that change something, leaving out the queries
+function changes(calls: string[]): string[] {
+	return calls.filter((call) => !call.startsWith("list-"));
+}
+
+describe("traverseTreeMove", () => {
+	test("moves every window of the layout into its workspace, in order", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [safari, webStorm, terminal],
+		});
+		const layout = workLayout();
+		await traverseTreeMove(createContext(layout), layout.windows);
+
+		expect(mac.state().windows.map((w) => w.workspace)).toEqual([
+			"1",
+			"1",
+			"1",
+		]);
+		expect(
+			mac.aerospaceCalls().filter((c) => c.startsWith("move-node")),
+		).toEqual([
+			"move-node-to-workspace --window-id 1 1",
+			"move-node-to-workspace --window-id 2 1",
+			"move-node-to-workspace --window-id 3 1",
+		]);
+		expect(layoutWindows(layout).map((w) => resolvedWindows.get(w))).toEqual([
+			"1",
+			"2",
+			"3",
+		]);
+	});
+
+	test("launches an app that isn't running", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [safari, terminal],
+			installed: {
+				"com.jetbrains.WebStorm": { app: "WebStorm", titles: ["Welcome"] },
+			},
+		});
+		const layout = workLayout();
+		const ctx = createContext(layout);
+		await traverseTreeMove(ctx, layout.windows);
+
+		const launched = mac.state().windows.find((w) => w.app === "WebStorm");
+		expect(launched?.workspace).toBe("1");
+		const [, webStormEntry] = layoutWindows(layout);
+		expect(getWindowReport(ctx, webStormEntry as LayoutWindow)).toMatchObject({
+			windowId: String(launched?.id),
+			steps: ["launched", "found", "moved"],
+			errors: [],
+		});
+	});
+
+	test("skips an app that can't be launched and places the others", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [safari, terminal],
+		});
+		const layout = workLayout();
+		const ctx = createContext(layout);
+		await traverseTreeMove(ctx, layout.windows);
+
+		expect(mac.state().windows.map((w) => [w.app, w.workspace])).toEqual([
+			["Safari", "1"],
+			["Terminal", "1"],
+		]);
+		const [, webStormEntry] = layoutWindows(layout);
+		const report = getWindowReport(ctx, webStormEntry as LayoutWindow);
+		expect(report.windowId).toBeNull();
+		expect(report.errors).toEqual([
+			expect.stringContaining("open -b com.jetbrains.WebStorm"),
+		]);
+	});
+
+	test(
+		"gives up on an app that never shows a window",
+		async () => {
+			const mac = useFakeMac({
+				focusedWorkspace: "1",
+				windows: [safari, terminal],
+				installed: {
+					"com.jetbrains.WebStorm": { app: "WebStorm", titles: [] },
+				},
+			});
+			const layout = workLayout();
+			const [, webStormEntry] = layoutWindows(layout) as LayoutWindow[];
+			(webStormEntry as LayoutWindow).launchTimeoutMs = 500;
+			const ctx = createContext(layout);
+			await traverseTreeMove(ctx, layout.windows);
+
+			expect(getWindowReport(ctx, webStormEntry as LayoutWindow)).toMatchObject(
+				{
+					windowId: null,
+					errors: ["No window found after 500ms"],
+				},
+			);
+			expect(mac.state().windows.every((w) => w.workspace === "1")).toBe(true);
+		},
+		{ timeout: 20_000 },
+	);
+
+	test("launches every missing app before moving windows", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [terminal],
+			installed: {
+				"com.apple.Safari": { app: "Safari", titles: ["Start Page"] },
+				"com.jetbrains.WebStorm": { app: "WebStorm", titles: ["api"] },
+			},
+		});
+		const layout = workLayout();
+		// A window that doesn't show up fails the test rather than timing it out
+		for (const item of layoutWindows(layout)) {
+			item.launchTimeoutMs = 1000;
+		}
+		const ctx = createContext(layout);
+		await traverseTreeMove(ctx, layout.windows);
+
+		for (const item of layoutWindows(layout)) {
+			expect(getWindowReport(ctx, item).errors).toEqual([]);
+		}
+		const calls = mac.calls();
+		const firstMove = calls.findIndex((c) => c.includes("move-node"));
+		const launches = calls.filter((c) => c.startsWith("open -b"));
+		expect(launches.sort()).toEqual([
+			"open -b com.apple.Safari",
+			"open -b com.jetbrains.WebStorm",
+		]);
+		for (const launch of launches) {
+			expect(calls.indexOf(launch)).toBeLessThan(firstMove);
+		}
+	});
+
+	test("gives each entry of the same app its own window", async () => {
+		const second = { ...terminal, id: 4, title: "logs", workspace: "2" };
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [terminal, second],
+		});
+		const layout: Layout = {
+			workspace: "5",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.apple.Terminal", windowTitle: "^logs$" },
+				{ bundleId: "com.apple.Terminal" },
+			],
+		};
+		await traverseTreeMove(createContext(layout), layout.windows);
+
+		expect(
+			mac.aerospaceCalls().filter((c) => c.startsWith("move-node")),
+		).toEqual([
+			"move-node-to-workspace --window-id 4 5",
+			"move-node-to-workspace --window-id 3 5",
+		]);
+	});
+});
+
+describe("traverseTreeReposition", () => {
+	test("sets the workspace layout and joins the windows of each group", async () => {
+		const mac = useFakeMac({
+			focusedWorkspace: "1",
+			windows: [
+				{ ...safari, workspace: "1" },
+				{ ...webStorm, workspace: "1" },
+				terminal,
+			],
+		});
+		const layout = workLayout();
+		const [safariEntry, webStormEntry, terminalEntry] = layoutWindows(layout);
+		resolvedWindows.set(safariEntry as LayoutWindow, "1");
+		resolvedWindows.set(webStormEntry as LayoutWindow, "2");
+		resolvedWindows.set(terminalEntry as LayoutWindow, "3");
+
+		await traverseTreeReposition(createContext(layout), layout.windows);
+
+		expect(changes(mac.aerospaceCalls())).toEqual([
+			"flatten-workspace-tree --workspace 1",
+			"layout v_tiles --window-id 1",
+			"focus --window-id 3",
+			"join-with --window-id 3 left",
+		]);
+	});
+
+	test("only joins the windows that were found", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [terminal] });
+		const layout = workLayout();
+		const [, , terminalEntry] = layoutWindows(layout);
+		resolvedWindows.set(terminalEntry as LayoutWindow, "3");
+
+		await traverseTreeReposition(createContext(layout), layout.windows);
+
+		// Without Safari the workspace layout is set through the first window left
+		expect(changes(mac.aerospaceCalls())).toEqual([
+			"flatten-workspace-tree --workspace 1",
+			"layout v_tiles --window-id 3",
+			"focus --window-id 3",
+			"join-with --window-id 3 left",
+		]);
+	});
+
+	test("sets the layout of a group once its windows are joined", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "com.microsoft.VSCode" },
+				{
+					orientation: "vertical",
+					layout: "accordion",
+					windows: [
+						{ bundleId: "com.tinyspeck.slackmacgap" },
+						{ bundleId: "com.apple.mail" },
+					],
+				},
+			],
+		};
+		for (const [i, item] of getLayoutWindows(layout.windows).entries()) {
+			resolvedWindows.set(item, String(i + 1));
+		}
+
+		await traverseTreeReposition(createContext(layout), layout.windows);
+
+		expect(changes(mac.aerospaceCalls())).toEqual([
+			"flatten-workspace-tree --workspace 1",
+			"layout h_tiles --window-id 1",
+			"focus --window-id 3",
+			"join-with --window-id 3 left",
+			"layout accordion --window-id 2",
+		]);
+	});
+});
+
+describe("traverseTreeResize", () => {
+	test("resizes sized windows along their group's orientation", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		const layout = workLayout();
+		const [, webStormEntry, terminalEntry] = layoutWindows(layout);
+		resolvedWindows.set(webStormEntry as LayoutWindow, "2");
+		resolvedWindows.set(terminalEntry as LayoutWindow, "3");
+
+		await traverseTreeResize(createContext(layout), layout.windows);
+
+		expect(changes(mac.aerospaceCalls())).toEqual([
+			"resize --window-id 2 width 1008",
+			"resize --window-id 3 width 504",
+			"workspace 9",
+			"workspace 1",
+		]);
+	});
+
+	test("resizes root items along the layout's orientation", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "2", windows: [] });
+		// The "web" layout from layouts.json
+		const layout: Layout = {
+			workspace: "2",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{ bundleId: "md.obsidian", size: "1/4" },
+				{ bundleId: "company.thebrowser.Browser", size: "1/2" },
+				{ bundleId: "com.cron.electron", size: "1/4" },
+			],
+		};
+		for (const [i, item] of layoutWindows(layout).entries()) {
+			resolvedWindows.set(item, String(i + 1));
+		}
+
+		await traverseTreeResize(createContext(layout), layout.windows);
+
+		expect(changes(mac.aerospaceCalls())).toEqual([
+			"resize --window-id 1 width 378",
+			"resize --window-id 2 width 756",
+			"resize --window-id 3 width 378",
+		]);
+	});
+
+	test("resizes a sized group through its first window", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "v_tiles",
+			orientation: "vertical",
+			windows: [
+				{
+					orientation: "horizontal",
+					size: "1/4",
+					windows: [
+						{ bundleId: "com.apple.Safari" },
+						{ bundleId: "com.apple.Terminal" },
+					],
+				},
+				{ bundleId: "com.jetbrains.WebStorm" },
+			],
+		};
+		for (const [i, item] of layoutWindows(layout).entries()) {
+			resolvedWindows.set(item, String(i + 1));
+		}
+
+		await traverseTreeResize(createContext(layout), layout.windows);
+
+		expect(changes(mac.aerospaceCalls())).toEqual([
+			"resize --window-id 1 height 245",
+			"workspace 9",
+			"workspace 1",
+		]);
+	});
+
+	test("resizes outer items first, and groups through a window of their own", async () => {
+		const mac = useFakeMac({ focusedWorkspace: "1", windows: [] });
+		const layout: Layout = {
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			windows: [
+				{
+					orientation: "vertical",
+					size: "2/3",
+					windows: [
+						{
+							orientation: "horizontal",
+							windows: [
+								{ bundleId: "com.apple.Safari" },
+								{ bundleId: "com.apple.Notes" },
+							],
+						},
+						{ bundleId: "com.jetbrains.WebStorm", size: "3/4" },
+					],
+				},
+				{ bundleId: "com.apple.Terminal" },
+			],
+		};
+		for (const [i, item] of getLayoutWindows(layout.windows).entries()) {
+			resolvedWindows.set(item, String(i + 1));
+		}
+
+		await traverseTreeResize(createContext(layout), layout.windows);
+
+		expect(
+			changes(mac.aerospaceCalls()).filter((c) => c.startsWith("resize")),
+		).toEqual([
+			// The group's width, through WebStorm: Safari is in a nested group
+			"resize --window-id 3 width 1008",
+			// Then the first item of the group: a share of what WebStorm leaves
+			"resize --window-id 1 height 245",
+			"resize --window-id 3 height 736",
+		]);
+	});
+});
+
+describe("getSizeDrift", () => {
+	test("reports items off their target along their parent's orientation", () => {
+		const layout = workLayout();
+		const [safariEntry, webStormEntry, terminalEntry] = layoutWindows(layout);
+		resolvedWindows.clear();
+		resolvedWindows.set(safariEntry as LayoutWindow, "1");
+		resolvedWindows.set(webStormEntry as LayoutWindow, "2");
+		resolvedWindows.set(terminalEntry as LayoutWindow, "3");
+		const frames = new Map([
+			["1", { x: 0, y: 0, width: 1512, height: 491 }],
+			// 2/3 of 1512 is 1008
+			["2", { x: 0, y: 491, width: 1000, height: 491 }],
+			["3", { x: 1000, y: 491, width: 300, height: 491 }],
+		]);
+
+		expect(getSizeDrift(createContext(layout), frames)).toEqual([
+			{
+				item: terminalEntry as LayoutWindow,
+				parent: layout.windows[1] as LayoutItem,
+				dimension: "width",
+				expected: 504,
+				actual: 300,
+			},
+		]);
+	});
+});
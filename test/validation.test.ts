@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigError } from "../src/errors";
+import type { Layout, LayoutConfig } from "../src/types";
+import {
+	assertNoValidationIssues,
+	validateLayoutConfig,
+} from "../src/validation";
+
+function configWith(layouts: Record<string, Layout>): LayoutConfig {
+	return { stashWorkspace: "S", layouts };
+}
+
+const work: Layout = {
+	workspace: "1",
+	layout: "h_tiles",
+	orientation: "horizontal",
+	windows: [
+		{ bundleId: "com.apple.Safari", size: "2/3" },
+		{ bundleId: "com.apple.Terminal", size: "1/3" },
+	],
+};
+
+describe("validateLayoutConfig", () => {
+	test("accepts a valid config", () => {
+		expect(validateLayoutConfig(configWith({ work }))).toEqual([]);
+	});
+
+	test("reports schema errors with their path", () => {
+		const config = configWith({
+			work: { ...work, layout: "grid" as Layout["layout"] },
+		});
+		expect(validateLayoutConfig(config)).toEqual([
+			{
+				path: ["layouts", "work", "layout"],
+				message: expect.stringContaining("must be equal to one of the allowed"),
+			},
+		]);
+	});
+
+	test("reports sizes adding up to more than 1", () => {
+		const config = configWith({
+			work: {
+				...work,
+				windows: [
+					{ bundleId: "com.apple.Safari", size: "2/3" },
+					{ bundleId: "com.apple.Terminal", size: "1/2" },
+				],
+			},
+		});
+		expect(validateLayoutConfig(config)).toEqual([
+			{
+				path: ["layouts", "work", "windows"],
+				message: "Sizes of sibling items add up to 1.167, more than 1",
+			},
+		]);
+	});
+
+	test("reports a layout on the stash workspace and a duplicate index", () => {
+		const config = configWith({
+			work: {
+				...work,
+				workspace: "S",
+				windows: [
+					{ bundleId: "com.apple.Terminal", index: 0 },
+					{ bundleId: "com.apple.Terminal", index: 0 },
+				],
+			},
+		});
+		expect(validateLayoutConfig(config).map((issue) => issue.path)).toEqual([
+			["layouts", "work", "workspace"],
+			["layouts", "work", "windows", 1, "index"],
+		]);
+	});
+
+	test("names what has no windows", () => {
+		const config = configWith({
+			work: {
+				...work,
+				windows: [{ orientation: "vertical", windows: [] }],
+				sections: [{ ...work, workspace: "2", windows: [] }],
+			},
+		});
+		expect(validateLayoutConfig(config)).toEqual([
+			{
+				path: ["layouts", "work", "windows", 0, "windows"],
+				message: "Group has no windows",
+			},
+			{
+				path: ["layouts", "work", "sections", 0, "windows"],
+				message: "Section has no windows",
+			},
+		]);
+	});
+
+	test("checks variants like the layout itself", () => {
+		const config = configWith({
+			work: {
+				...work,
+				variants: [
+					{
+						when: { displayCount: 2 },
+						existingWindows: { default: { workspace: "1" } },
+						sections: [{ ...work, workspace: "S" }],
+					},
+				],
+			},
+		});
+		expect(validateLayoutConfig(config).map((issue) => issue.path)).toEqual([
+			[
+				"layouts",
+				"work",
+				"variants",
+				0,
+				"existingWindows",
+				"default",
+				"workspace",
+			],
+			["layouts", "work", "variants", 0, "sections", 0, "workspace"],
+		]);
+	});
+
+	test("reports a session naming a layout that doesn't exist", () => {
+		const config: LayoutConfig = {
+			...configWith({ work }),
+			sessions: { morning: { layouts: ["work", "mail"] } },
+		};
+		expect(validateLayoutConfig(config)).toEqual([
+			{
+				path: ["sessions", "morning", "layouts", 1],
+				message: 'Layout "mail" does not exist',
+			},
+		]);
+	});
+});
+
+describe("assertNoValidationIssues", () => {
+	const config = configWith({
+		work,
+		broken: { ...work, windows: [] },
+	});
+
+	test("only checks the layouts being applied", () => {
+		expect(() => assertNoValidationIssues(config, ["work"])).not.toThrow();
+	});
+
+	test("throws a ConfigError for problems in them", () => {
+		expect(() => assertNoValidationIssues(config, ["broken"])).toThrow(
+			ConfigError,
+		);
+		expect(() => assertNoValidationIssues(config, ["broken"])).toThrow(
+			"1 problem(s) found in the configuration file",
+		);
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import type { DisplayInfo, Layout } from "../src/types";
+import { resolveLayoutVariant } from "../src/variants";
+import { builtInDisplay } from "./helpers";
+
+const laptop: DisplayInfo = { ...builtInDisplay, isMain: false };
+// A 4K monitor scaled to look like 2560x1440
+const lg4k: DisplayInfo = {
+	id: 3,
+	name: "LG HDR 4K",
+	width: 2560,
+	height: 1440,
+	pixels: { width: 3840, height: 2160 },
+	isMain: true,
+	isInternal: false,
+};
+const dell: DisplayInfo = {
+	id: 2,
+	name: "DELL U2724D",
+	width: 2560,
+	height: 1440,
+	pixels: { width: 2560, height: 1440 },
+	isMain: true,
+	isInternal: false,
+};
+
+// "work": three columns on a 4K monitor, two panes on a laptop
+function workLayout(): Layout {
+	return {
+		workspace: "1",
+		layout: "h_tiles",
+		orientation: "horizontal",
+		windows: [
+			{ bundleId: "com.apple.Safari" },
+			{ bundleId: "com.jetbrains.WebStorm" },
+		],
+		variants: [
+			{
+				when: { hasDisplay: "external", minResolution: "3840x2160" },
+				display: "external",
+				windows: [
+					{ bundleId: "com.apple.Safari", size: "1/3" },
+					{ bundleId: "com.jetbrains.WebStorm", size: "1/3" },
+					{ bundleId: "com.apple.Terminal", size: "1/3" },
+				],
+			},
+			{
+				when: { displayCount: 1 },
+				layout: "h_accordion",
+			},
+		],
+	};
+}
+
+describe("resolveLayoutVariant", () => {
+	test("uses the first variant whose conditions hold", () => {
+		const layout = resolveLayoutVariant("work", workLayout(), [laptop, lg4k]);
+		expect(layout).toEqual({
+			workspace: "1",
+			layout: "h_tiles",
+			orientation: "horizontal",
+			display: "external",
+			windows: [
+				{ bundleId: "com.apple.Safari", size: "1/3" },
+				{ bundleId: "com.jetbrains.WebStorm", size: "1/3" },
+				{ bundleId: "com.apple.Terminal", size: "1/3" },
+			],
+		});
+	});
+
+	test("checks minResolution against the display the variant is applied to", () => {
+		const layout = resolveLayoutVariant("work", workLayout(), [laptop, dell]);
+		// Neither variant fits: the layout itself, without its variants
+		const { variants, ...base } = workLayout();
+		expect(layout).toEqual(base);
+	});
+
+	test("compares minResolution with the pixels rather than the scaled size", () => {
+		expect(
+			resolveLayoutVariant("work", workLayout(), [laptop, lg4k]).windows,
+		).toHaveLength(3);
+		const unknownPixels = { ...lg4k, pixels: undefined };
+		expect(
+			resolveLayoutVariant("work", workLayout(), [laptop, unknownPixels])
+				.windows,
+		).toHaveLength(2);
+	});
+
+	test("matches the display count", () => {
+		const layout = resolveLayoutVariant("work", workLayout(), [builtInDisplay]);
+		expect(layout.layout).toBe("h_accordion");
+		expect(layout.windows).toHaveLength(2);
+	});
+
+	test("an empty condition always matches", () => {
+		const layout = resolveLayoutVariant(
+			"work",
+			{
+				...workLayout(),
+				variants: [{ when: {}, workspace: "3" }],
+			},
+			[builtInDisplay],
+		);
+		expect(layout.workspace).toBe("3");
+	});
+});
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { waitFor } from "../src/wait";
+
+describe("waitFor", () => {
+	test("resolves to the first value the check returns", async () => {
+		let checks = 0;
+		const result = await waitFor(
+			async () => (++checks === 3 ? "ready" : null),
+			{ timeoutMs: 1000, intervalMs: 1 },
+		);
+		expect(result).toBe("ready");
+		expect(checks).toBe(3);
+	});
+
+	test("backs off between checks and gives up at the timeout", async () => {
+		const times: number[] = [];
+		const start = Date.now();
+		const result = await waitFor(
+			async () => {
+				times.push(Date.now() - start);
+				return undefined;
+			},
+			{ timeoutMs: 200, intervalMs: 10, maxIntervalMs: 80 },
+		);
+		expect(result).toBeNull();
+		// 10, 20, 40, 80 and then what is left of the 200ms
+		expect(times.length).toBeLessThanOrEqual(7);
+		expect(times.at(-1)).toBeGreaterThanOrEqual(190);
+	});
+});
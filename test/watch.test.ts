@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import type { DisplayInfo, Layout } from "../src/types";
+import {
+	detectTriggers,
+	getWatchedLayouts,
+	type WatchState,
+} from "../src/watch";
+import { builtInDisplay } from "./helpers";
+
+const dell: DisplayInfo = {
+	id: 2,
+	name: "DELL U2723QE",
+	width: 2560,
+	height: 1440,
+	isMain: true,
+	isInternal: false,
+};
+
+const laptop: WatchState = {
+	displays: [builtInDisplay],
+	bundleIds: new Set(["com.apple.Safari"]),
+	focusedWorkspace: "1",
+};
+
+function layout(autoApply: Layout["autoApply"]): Layout {
+	return {
+		workspace: "2",
+		layout: "h_tiles",
+		orientation: "horizontal",
+		windows: [
+			{ bundleId: "com.apple.Safari" },
+			{ bundleId: "com.apple.Terminal" },
+		],
+		autoApply,
+	};
+}
+
+describe("detectTriggers", () => {
+	test("fires onDisplays when the listed displays get connected", () => {
+		const layouts = {
+			docked: layout({ onDisplays: ["external"] }),
+			dell: layout({ onDisplays: ["^dell", "internal"] }),
+			laptop: layout({ onDisplays: ["internal"] }),
+			projector: layout({ onDisplays: ["projector"] }),
+		};
+		const docked = { ...laptop, displays: [builtInDisplay, dell] };
+
+		expect(detectTriggers(layouts, laptop, docked)).toEqual([
+			{ layoutName: "docked", reason: "displays changed" },
+			{ layoutName: "dell", reason: "displays changed" },
+			{ layoutName: "laptop", reason: "displays changed" },
+		]);
+		expect(detectTriggers(layouts, docked, laptop)).toEqual([
+			{ layoutName: "laptop", reason: "displays changed" },
+		]);
+	});
+
+	test("doesn't fire onDisplays while the displays stay the same", () => {
+		const layouts = { laptop: layout({ onDisplays: ["internal"] }) };
+		expect(detectTriggers(layouts, laptop, { ...laptop })).toEqual([]);
+	});
+
+	test("fires onAppLaunch for the layout's apps or the listed ones", () => {
+		const layouts = {
+			own: layout({ onAppLaunch: true }),
+			listed: layout({ onAppLaunch: ["com.tinyspeck.slackmacgap"] }),
+		};
+		const terminal = {
+			...laptop,
+			bundleIds: new Set(["com.apple.Safari", "com.apple.Terminal"]),
+		};
+		const slack = {
+			...laptop,
+			bundleIds: new Set(["com.apple.Safari", "com.tinyspeck.slackmacgap"]),
+		};
+
+		expect(detectTriggers(layouts, laptop, terminal)).toEqual([
+			{ layoutName: "own", reason: "com.apple.Terminal launched" },
+		]);
+		expect(detectTriggers(layouts, laptop, slack)).toEqual([
+			{ layoutName: "listed", reason: "com.tinyspeck.slackmacgap launched" },
+		]);
+		// Quitting an app is not a launch
+		expect(detectTriggers(layouts, terminal, laptop)).toEqual([]);
+	});
+
+	test("fires onWorkspaceFocus when the layout's workspace gets focused", () => {
+		const layouts = {
+			focused: layout({ onWorkspaceFocus: true }),
+			other: layout({ onAppLaunch: true }),
+		};
+		const onTwo = { ...laptop, focusedWorkspace: "2" };
+
+		expect(detectTriggers(layouts, laptop, onTwo)).toEqual([
+			{ layoutName: "focused", reason: "workspace 2 focused" },
+		]);
+		expect(detectTriggers(layouts, onTwo, { ...onTwo })).toEqual([]);
+	});
+
+	test("ignores layouts without autoApply", () => {
+		const layouts = { manual: layout(undefined) };
+		const docked = {
+			displays: [builtInDisplay, dell],
+			bundleIds: new Set(["com.apple.Terminal"]),
+			focusedWorkspace: "2",
+		};
+		expect(detectTriggers(layouts, laptop, docked)).toEqual([]);
+	});
+});
+
+describe("getWatchedLayouts", () => {
+	const dev: Layout = {
+		...layout({ onWorkspaceFocus: true }),
+		workspace: "${workspace}",
+		params: { workspace: { required: true } },
+	};
+
+	test("fills in params so the workspace can be matched", () => {
+		const layouts = getWatchedLayouts(
+			{ stashWorkspace: "S", layouts: { dev, manual: layout(undefined) } },
+			{ workspace: "4" },
+		);
+		expect(Object.keys(layouts)).toEqual(["dev"]);
+		expect(
+			detectTriggers(layouts, laptop, { ...laptop, focusedWorkspace: "4" }),
+		).toEqual([{ layoutName: "dev", reason: "workspace 4 focused" }]);
+	});
+
+	test("rejects a layout with a required param that isn't set", () => {
+		expect(() =>
+			getWatchedLayouts({ stashWorkspace: "S", layouts: { dev } }, {}),
+		).toThrow('Layout "dev" needs a value for ${workspace}');
+	});
+});
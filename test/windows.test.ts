@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { homedir } from "node:os";
+import type { LaunchOptions, LayoutWindow } from "../src/types";
+import { ensureWindow, getResolvedWindowId } from "../src/windows";
+import type { FakeWindow } from "./fixtures/fake-cli";
+import { createContext, useFakeMac } from "./helpers";
+
+const vscode: FakeWindow = {
+	id: 1,
+	app: "Code",
+	bundleId: "com.microsoft.VSCode",
+	title: "notes",
+	workspace: "3",
+};
+
+// VS Code, already running with a window of its own
+function launch(open: LaunchOptions) {
+	const mac = useFakeMac({
+		focusedWorkspace: "1",
+		windows: [vscode],
+		installed: {
+			"com.microsoft.VSCode": { app: "Code", titles: ["Welcome"] },
+		},
+	});
+	const item: LayoutWindow = { bundleId: "com.microsoft.VSCode", open };
+	const ctx = createContext({
+		workspace: "1",
+		layout: "h_tiles",
+		orientation: "horizontal",
+		windows: [item],
+	});
+	return { mac, item, windowId: ensureWindow(ctx, item) };
+}
+
+// `open` invocations, e.g. "open -b com.microsoft.VSCode /tmp/api"
+function opens(calls: string[]): string[] {
+	return calls.filter((call) => call.startsWith("open "));
+}
+
+describe("ensureWindow with launch options", () => {
+	test("opens a path, with ~ expanded", async () => {
+		const { mac, windowId } = launch({ path: "~/code/api" });
+		expect(await windowId).toBe("101");
+		expect(opens(mac.calls())).toEqual([
+			`open -b com.microsoft.VSCode ${homedir()}/code/api`,
+		]);
+	});
+
+	test("opens a URL", async () => {
+		const { mac, windowId } = launch({ url: "vscode://file/tmp/notes.md" });
+		expect(await windowId).toBe("101");
+		expect(opens(mac.calls())).toEqual([
+			"open -b com.microsoft.VSCode vscode://file/tmp/notes.md",
+		]);
+	});
+
+	test("passes args to a new instance of the app", async () => {
+		const { mac, windowId } = launch({ args: ["--profile", "work"] });
+		expect(await windowId).toBe("101");
+		expect(opens(mac.calls())).toEqual([
+			"open -n -b com.microsoft.VSCode --args --profile work",
+		]);
+	});
+
+	test("runs a shell command instead of open", async () => {
+		const { mac, windowId } = launch({
+			command: "open -b com.microsoft.VSCode /tmp/scratch",
+		});
+		expect(await windowId).toBe("101");
+		expect(opens(mac.calls())).toEqual([
+			"open -b com.microsoft.VSCode /tmp/scratch",
+		]);
+	});
+
+	test("claims the window that appeared after the launch", async () => {
+		const { mac, item, windowId } = launch({ path: "/tmp/api" });
+		expect(await windowId).toBe("101");
+		expect(getResolvedWindowId(item)).toBe("101");
+		expect(mac.state().windows.map((w) => [w.id, w.title])).toEqual([
+			[1, "notes"],
+			[101, "/tmp/api"],
+		]);
+	});
+});